@@ -1,8 +1,43 @@
 #!/usr/bin/env node
-import { getOpenApiClient, getOperations } from "./operations/openapi-operations";
-import { configureStdioServer, createMcpServer, setupServerTools } from "./operations/smp-operations";
+import { getComponentSchemas, getOpenApiClient, getOperations } from "./operations/openapi-operations";
+import {
+  configureHttpServer,
+  configureStdioServer,
+  createMcpServer,
+  DEFAULT_SESSION_IDLE_TIMEOUT,
+  HttpTransportType,
+  setupServerTools
+} from "./operations/smp-operations";
 import logger from "./utils/logger";
 import { AuthType } from "./operations/auth-operations";
+import { OperationFilterOptions } from "./utils/operation-filter";
+import { getMethodOverrides } from "./utils/read-only";
+import { ConfirmationOptions } from "./utils/confirmation";
+import {
+  DEFAULT_RETRY_BASE_DELAY,
+  DEFAULT_RETRY_MAX_ATTEMPTS,
+  DEFAULT_RETRY_MAX_DELAY,
+  DEFAULT_RETRYABLE_STATUSES,
+  RetryOptions
+} from "./utils/retry";
+import { DEFAULT_TIMEOUT } from "./utils/timeout";
+import { createRateLimiter, DEFAULT_MAX_QUEUE_WAIT, LimitOptions, RateLimitOptions } from "./utils/rate-limit";
+import { DEFAULT_MAX_ITEMS, DEFAULT_MAX_PAGES, PaginationOptions } from "./utils/pagination";
+import { DEFAULT_MAX_RESPONSE_SIZE, DEFAULT_MAX_STRING_LENGTH, ResponseBudgetOptions } from "./utils/response-budget";
+import { DEFAULT_ENVELOPE_MODE, DEFAULT_HEADER_ALLOWLIST, ENVELOPE_MODES, EnvelopeMode, EnvelopeOptions } from "./utils/result-envelope";
+import {
+  getUnknownPlaceholders,
+  TEMPLATE_PLACEHOLDERS,
+  TOOL_NAMING_STRATEGIES,
+  ToolNamingOptions,
+  ToolNamingStrategy
+} from "./utils/tool-naming";
+import {
+  DEFAULT_MAX_DESCRIPTION_LENGTH,
+  DescriptionOptions,
+  DESCRIPTION_PLACEHOLDERS,
+  getUnknownDescriptionPlaceholders
+} from "./utils/tool-description";
 import { Command } from 'commander';
 
 // Simple interface for configuration
@@ -19,6 +54,91 @@ interface ServerConfig {
   oauthClientSecret?: string;
   oauthTokenUrl?: string;
   oauthScopes?: string;
+  transport?: string;
+  port?: string;
+  host?: string;
+  allowedHosts?: string;
+  allowedOrigins?: string;
+  sessionIdleTimeout?: string;
+  maxSchemaDepth?: string;
+  maxBinarySize?: string;
+  includeTags?: string;
+  excludeTags?: string;
+  includePaths?: string;
+  excludePaths?: string;
+  includeMethods?: string;
+  excludeMethods?: string;
+  includeOperations?: string;
+  excludeOperations?: string;
+  readOnly?: boolean;
+  confirmMethods?: string;
+  confirmTags?: string;
+  confirmOperations?: string;
+  dryRun?: boolean;
+  retryMaxAttempts?: string;
+  retryBaseDelay?: string;
+  retryMaxDelay?: string;
+  retryStatuses?: string;
+  retryNonIdempotent?: boolean;
+  timeout?: string;
+  operationTimeouts?: string;
+  rateLimit?: string;
+  maxConcurrency?: string;
+  hostRateLimit?: string;
+  hostMaxConcurrency?: string;
+  operationRateLimits?: string;
+  operationMaxConcurrency?: string;
+  maxQueueWait?: string;
+  paginate?: boolean;
+  maxPages?: string;
+  maxItems?: string;
+  maxResponseSize?: string;
+  maxStringLength?: string;
+  envelope?: string;
+  responseHeaders?: string;
+  toolNaming?: string;
+  toolNameTemplate?: string;
+  toolNamespace?: string;
+  descriptionTemplate?: string;
+  maxDescriptionLength?: string;
+}
+
+const TRANSPORTS = ['stdio', 'http', 'sse'];
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+const DEFAULT_CONFIRM_METHODS = 'delete';
+
+/**
+ * Comma-separated lists, empty entries are dropped
+ */
+function parseList(value?: string): string[] | undefined {
+  const entries = value?.split(',').map((entry) => entry.trim()).filter(Boolean);
+  return entries?.length ? entries : undefined;
+}
+
+/**
+ * Comma-separated name=value pairs, values are kept as strings for validation
+ */
+function parseMap(value?: string): Record<string, string> | undefined {
+  const entries = parseList(value)?.map((entry) => {
+    const separator = entry.indexOf('=');
+    return separator === -1 ? [entry, ''] : [entry.slice(0, separator).trim(), entry.slice(separator + 1).trim()];
+  });
+  return entries ? Object.fromEntries(entries) : undefined;
+}
+
+function toNumber(value?: string): number | undefined {
+  return value !== undefined ? Number(value) : undefined;
+}
+
+/**
+ * Per-operation rate and concurrency limits from the operationId=value maps
+ */
+function getOperationLimits(rates: Record<string, string> = {}, concurrency: Record<string, string> = {}): Record<string, LimitOptions> {
+  const operationIds = new Set([...Object.keys(rates), ...Object.keys(concurrency)]);
+  return Object.fromEntries([...operationIds].map((operationId) => [operationId, {
+    rate: toNumber(rates[operationId]),
+    concurrency: toNumber(concurrency[operationId]),
+  }]));
 }
 
 /**
@@ -35,10 +155,63 @@ function parseArgs(): ServerConfig {
   // Core options
   program
     .option('--spec <path>', 'Path to OpenAPI specification file')
-    .option('--base-url <url>', 'Base URL for API requests')
+    .option('--base-url <url>', 'Base URL for API requests (defaults to the server URL declared in the spec)')
     .option('--headers <json>', 'Additional headers as JSON string', '{}')
     .option('--verbose', 'Enable detailed logging')
-    .option('--log-level <level>', 'Set log level (error, warn, info, debug)', 'info');
+    .option('--log-level <level>', 'Set log level (error, warn, info, debug)', 'info')
+    .option('--max-schema-depth <number>', 'Nesting depth beyond which tool schemas are emitted as permissive objects')
+    .option('--max-binary-size <bytes>', 'Size above which binary responses are returned as a resource link instead of inline content')
+    .option('--max-response-size <chars>', `Characters of JSON response data returned per call, larger responses are truncated, 0 disables it (default: ${DEFAULT_MAX_RESPONSE_SIZE})`)
+    .option('--max-string-length <chars>', `Length long strings are cut to in truncated responses (default: ${DEFAULT_MAX_STRING_LENGTH})`)
+    .option('--envelope <mode>', `What text results wrap around the response body: ${ENVELOPE_MODES.join(', ')} (default: ${DEFAULT_ENVELOPE_MODE})`)
+    .option('--response-headers <names>', `Comma-separated response headers returned in the full envelope, a trailing * matches any suffix, "*" returns all (default: ${DEFAULT_HEADER_ALLOWLIST.join(',')})`);
+  
+  // Transport options
+  program
+    .option('--transport <type>', `MCP transport to serve (${TRANSPORTS.join(', ')}); combine http and sse with a comma`, 'stdio')
+    .option('--port <number>', 'Port to listen on for the http and sse transports', '3000')
+    .option('--host <host>', 'Host to bind for the http and sse transports', '127.0.0.1')
+    .option('--allowed-hosts <hosts>', 'Comma-separated Host header values accepted besides the bound host and localhost, e.g. behind a proxy')
+    .option('--allowed-origins <origins>', 'Comma-separated origins of browser pages allowed to call the http and sse transports')
+    .option('--session-idle-timeout <ms>', `Close Streamable HTTP sessions without requests for this long, 0 keeps them open (default: ${DEFAULT_SESSION_IDLE_TIMEOUT})`);
+  
+  // Operation filters
+  program
+    .option('--include-tags <tags>', 'Only expose operations with one of these comma-separated tags')
+    .option('--exclude-tags <tags>', 'Do not expose operations with any of these comma-separated tags')
+    .option('--include-paths <globs>', 'Only expose operations whose path matches one of these comma-separated globs')
+    .option('--exclude-paths <globs>', 'Do not expose operations whose path matches any of these comma-separated globs')
+    .option('--include-methods <methods>', 'Only expose operations with one of these comma-separated HTTP methods')
+    .option('--exclude-methods <methods>', 'Do not expose operations with any of these comma-separated HTTP methods')
+    .option('--include-operations <ids>', 'Always expose these comma-separated operationIds')
+    .option('--exclude-operations <ids>', 'Never expose these comma-separated operationIds')
+    .option('--tool-naming <strategy>', `How tool names are derived: ${TOOL_NAMING_STRATEGIES.join(', ')} (default: operationId)`)
+    .option('--tool-name-template <template>', `Template of the tool names, with the placeholders ${TEMPLATE_PLACEHOLDERS.map((placeholder) => `{${placeholder}}`).join(', ')}`)
+    .option('--tool-namespace <prefix>', 'Prefix of every tool name, e.g. the name of the API')
+    .option('--description-template <template>', `Template of the tool descriptions, with the placeholders ${DESCRIPTION_PLACEHOLDERS.map((placeholder) => `{${placeholder}}`).join(', ')}; \\n starts a new line`)
+    .option('--max-description-length <chars>', `Characters per tool description, optional sections are left out first, 0 disables it (default: ${DEFAULT_MAX_DESCRIPTION_LENGTH})`)
+    .option('--read-only', 'Only expose and allow GET, HEAD and OPTIONS operations (and those marked x-mcp-safe)')
+    .option('--confirm-methods <methods>', `Ask the user to confirm requests with these comma-separated HTTP methods, "none" to disable (default: ${DEFAULT_CONFIRM_METHODS})`)
+    .option('--confirm-tags <tags>', 'Ask the user to confirm requests of operations with one of these comma-separated tags')
+    .option('--confirm-operations <ids>', 'Ask the user to confirm requests of these comma-separated operationIds')
+    .option('--dry-run', 'Return the resolved HTTP request of every tool call instead of sending it')
+    .option('--retry-max-attempts <number>', `Attempts per request including the first one, 1 disables retries (default: ${DEFAULT_RETRY_MAX_ATTEMPTS})`)
+    .option('--retry-base-delay <ms>', `Backoff before the first retry, doubled on every further retry (default: ${DEFAULT_RETRY_BASE_DELAY})`)
+    .option('--retry-max-delay <ms>', `Maximum backoff, longer Retry-After hints are not retried (default: ${DEFAULT_RETRY_MAX_DELAY})`)
+    .option('--retry-statuses <codes>', `Comma-separated HTTP status codes to retry (default: ${DEFAULT_RETRYABLE_STATUSES.join(',')})`)
+    .option('--retry-non-idempotent', 'Also retry operations that are not idempotent, like POST and PATCH')
+    .option('--timeout <ms>', `Timeout of every request attempt, 0 disables it (default: ${DEFAULT_TIMEOUT})`)
+    .option('--operation-timeouts <timeouts>', 'Comma-separated operationId=ms timeouts overriding --timeout and x-mcp-timeout')
+    .option('--rate-limit <rps>', 'Maximum requests per second across all operations')
+    .option('--max-concurrency <number>', 'Maximum requests in flight across all operations')
+    .option('--host-rate-limit <rps>', 'Maximum requests per second to each upstream host')
+    .option('--host-max-concurrency <number>', 'Maximum requests in flight to each upstream host')
+    .option('--operation-rate-limits <limits>', 'Comma-separated operationId=rps rate limits')
+    .option('--operation-max-concurrency <limits>', 'Comma-separated operationId=number concurrency limits')
+    .option('--max-queue-wait <ms>', `How long a call over the limits may wait before it fails (default: ${DEFAULT_MAX_QUEUE_WAIT})`)
+    .option('--paginate', 'Detect the pagination of GET operations and combine their pages, not only of those with x-mcp-pagination')
+    .option('--max-pages <number>', `Pages fetched per paginated tool call (default: ${DEFAULT_MAX_PAGES})`)
+    .option('--max-items <number>', `Items after which a paginated tool call stops fetching pages (default: ${DEFAULT_MAX_ITEMS})`);
   
   // Auth options
   program
@@ -53,8 +226,14 @@ function parseArgs(): ServerConfig {
   program.addHelpText('after', `
 Environment Variables:
   OPENAPI_SPEC_URL              Path or URL to OpenAPI spec (required if --spec not set)
-  OPENAPI_SPEC_BASE_URL         Base URL for API requests (required if --base-url not set)
+  OPENAPI_SPEC_BASE_URL         Base URL for API requests (defaults to the server URL declared in the spec)
   OPENAPI_SPEC_HEADERS          Additional headers as JSON
+  OPENAPI_READ_ONLY             Same as --read-only when set to true
+  OPENAPI_DRY_RUN               Same as --dry-run when set to true
+  OPENAPI_PAGINATE              Same as --paginate when set to true
+  OPENAPI_INCLUDE_TAGS          Same as --include-tags (also _EXCLUDE_TAGS, _INCLUDE_PATHS, _EXCLUDE_PATHS,
+                                _INCLUDE_METHODS, _EXCLUDE_METHODS, _INCLUDE_OPERATIONS, _EXCLUDE_OPERATIONS)
+  OPENAPI_CONFIRM_METHODS       Same as --confirm-methods (also _CONFIRM_TAGS, _CONFIRM_OPERATIONS)
   OPENAPI_CERT_PATH             Path to client certificate file
   OPENAPI_KEY_PATH              Path to client key file
   OPENAPI_CERT_PASSPHRASE       Passphrase for certificate
@@ -79,13 +258,186 @@ async function startServer(config: ServerConfig): Promise<void> {
   const specUrl = config.spec || process.env.OPENAPI_SPEC_URL;
   const baseUrl = config.baseUrl || process.env.OPENAPI_SPEC_BASE_URL;
   const headers = config.headers || process.env.OPENAPI_SPEC_HEADERS || '{}';
+  const transports = (config.transport || 'stdio').split(',').map((transport) => transport.trim());
+  const port = Number(config.port ?? 3000);
+  const sessionIdleTimeout = toNumber(config.sessionIdleTimeout);
+  const maxSchemaDepth = config.maxSchemaDepth !== undefined ? Number(config.maxSchemaDepth) : undefined;
+  const maxBinarySize = config.maxBinarySize !== undefined ? Number(config.maxBinarySize) : undefined;
+  const readOnly = config.readOnly || process.env.OPENAPI_READ_ONLY === 'true';
+  const dryRun = config.dryRun || process.env.OPENAPI_DRY_RUN === 'true';
+  const timeout = config.timeout !== undefined ? Number(config.timeout) : undefined;
+  const operationTimeoutValues = parseMap(config.operationTimeouts);
+  const rateLimits: RateLimitOptions = {
+    global: { rate: toNumber(config.rateLimit), concurrency: toNumber(config.maxConcurrency) },
+    perHost: { rate: toNumber(config.hostRateLimit), concurrency: toNumber(config.hostMaxConcurrency) },
+    operations: getOperationLimits(parseMap(config.operationRateLimits), parseMap(config.operationMaxConcurrency)),
+    maxWait: toNumber(config.maxQueueWait),
+  };
+  const responseBudget: ResponseBudgetOptions = {
+    maxSize: toNumber(config.maxResponseSize),
+    maxStringLength: toNumber(config.maxStringLength),
+  };
+  const naming: ToolNamingOptions = {
+    strategy: (config.toolNaming ?? (config.toolNameTemplate ? 'template' : undefined)) as ToolNamingStrategy | undefined,
+    template: config.toolNameTemplate,
+    namespace: config.toolNamespace,
+  };
+  const descriptions: DescriptionOptions = {
+    template: config.descriptionTemplate?.replaceAll('\\n', '\n'),
+    maxLength: toNumber(config.maxDescriptionLength),
+  };
+  const envelope: EnvelopeOptions = {
+    mode: config.envelope as EnvelopeMode | undefined,
+    headers: parseList(config.responseHeaders),
+  };
+  const pagination: PaginationOptions = {
+    detect: config.paginate || process.env.OPENAPI_PAGINATE === 'true',
+    maxPages: toNumber(config.maxPages),
+    maxItems: toNumber(config.maxItems),
+  };
+  const retry: RetryOptions = {
+    maxAttempts: config.retryMaxAttempts !== undefined ? Number(config.retryMaxAttempts) : undefined,
+    baseDelay: config.retryBaseDelay !== undefined ? Number(config.retryBaseDelay) : undefined,
+    maxDelay: config.retryMaxDelay !== undefined ? Number(config.retryMaxDelay) : undefined,
+    retryableStatuses: parseList(config.retryStatuses)?.map(Number),
+    retryNonIdempotent: config.retryNonIdempotent,
+  };
+  const operationFilters: OperationFilterOptions = {
+    readOnly,
+    includeTags: parseList(config.includeTags || process.env.OPENAPI_INCLUDE_TAGS),
+    excludeTags: parseList(config.excludeTags || process.env.OPENAPI_EXCLUDE_TAGS),
+    includePaths: parseList(config.includePaths || process.env.OPENAPI_INCLUDE_PATHS),
+    excludePaths: parseList(config.excludePaths || process.env.OPENAPI_EXCLUDE_PATHS),
+    includeMethods: parseList(config.includeMethods || process.env.OPENAPI_INCLUDE_METHODS),
+    excludeMethods: parseList(config.excludeMethods || process.env.OPENAPI_EXCLUDE_METHODS),
+    includeOperationIds: parseList(config.includeOperations || process.env.OPENAPI_INCLUDE_OPERATIONS),
+    excludeOperationIds: parseList(config.excludeOperations || process.env.OPENAPI_EXCLUDE_OPERATIONS),
+  };
+  const confirm: ConfirmationOptions = {
+    methods: parseList(config.confirmMethods || process.env.OPENAPI_CONFIRM_METHODS || DEFAULT_CONFIRM_METHODS)
+      ?.filter((method) => method.toLowerCase() !== 'none'),
+    tags: parseList(config.confirmTags || process.env.OPENAPI_CONFIRM_TAGS),
+    operationIds: parseList(config.confirmOperations || process.env.OPENAPI_CONFIRM_OPERATIONS),
+  };
   
   // Validate required parameters
   if (!specUrl) {
     throw new Error("OpenAPI spec URL/path is required. Provide it via --spec flag or OPENAPI_SPEC_URL env var");
   }
-  if (!baseUrl) {
-    throw new Error("Base URL is required. Provide it via --base-url flag or OPENAPI_SPEC_BASE_URL env var");
+  
+  const unsupportedTransport = transports.find((transport) => !TRANSPORTS.includes(transport));
+  if (unsupportedTransport) {
+    throw new Error(`Unsupported transport "${unsupportedTransport}". Use one of: ${TRANSPORTS.join(', ')}`);
+  }
+  const isStdio = transports.includes('stdio');
+  if (isStdio && transports.length > 1) {
+    throw new Error("The stdio transport cannot be combined with other transports");
+  }
+  if (!isStdio && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+    throw new Error(`Invalid port "${config.port}" for the ${transports.join(', ')} transport`);
+  }
+  
+  if (maxSchemaDepth !== undefined && (!Number.isInteger(maxSchemaDepth) || maxSchemaDepth < 1)) {
+    throw new Error(`Invalid max schema depth "${config.maxSchemaDepth}", expected a positive integer`);
+  }
+  if (maxBinarySize !== undefined && (!Number.isInteger(maxBinarySize) || maxBinarySize < 0)) {
+    throw new Error(`Invalid max binary size "${config.maxBinarySize}", expected a number of bytes`);
+  }
+  if (responseBudget.maxSize !== undefined && (!Number.isInteger(responseBudget.maxSize) || responseBudget.maxSize < 0)) {
+    throw new Error(`Invalid max response size "${config.maxResponseSize}", expected a number of characters`);
+  }
+  if (responseBudget.maxStringLength !== undefined && (!Number.isInteger(responseBudget.maxStringLength) || responseBudget.maxStringLength < 1)) {
+    throw new Error(`Invalid max string length "${config.maxStringLength}", expected a positive number of characters`);
+  }
+  if (naming.strategy !== undefined && !TOOL_NAMING_STRATEGIES.includes(naming.strategy)) {
+    throw new Error(`Unsupported tool naming "${config.toolNaming}". Use one of: ${TOOL_NAMING_STRATEGIES.join(', ')}`);
+  }
+  if (naming.strategy === 'template' && !naming.template) {
+    throw new Error("The template tool naming requires --tool-name-template");
+  }
+  if (naming.template && naming.strategy !== 'template') {
+    throw new Error("--tool-name-template can only be combined with the template tool naming");
+  }
+  const unknownPlaceholders = getUnknownPlaceholders(naming.template ?? '');
+  if (unknownPlaceholders.length > 0) {
+    throw new Error(`Unknown placeholder "{${unknownPlaceholders[0]}}" in the tool name template. Use ${TEMPLATE_PLACEHOLDERS.map((placeholder) => `{${placeholder}}`).join(', ')}`);
+  }
+  const unknownDescriptionPlaceholders = getUnknownDescriptionPlaceholders(descriptions.template ?? '');
+  if (unknownDescriptionPlaceholders.length > 0) {
+    throw new Error(`Unknown placeholder "{${unknownDescriptionPlaceholders[0]}}" in the description template. Use ${DESCRIPTION_PLACEHOLDERS.map((placeholder) => `{${placeholder}}`).join(', ')}`);
+  }
+  if (descriptions.maxLength !== undefined && (!Number.isInteger(descriptions.maxLength) || descriptions.maxLength < 0)) {
+    throw new Error(`Invalid max description length "${config.maxDescriptionLength}", expected a number of characters`);
+  }
+  
+  if (envelope.mode !== undefined && !ENVELOPE_MODES.includes(envelope.mode)) {
+    throw new Error(`Unsupported envelope "${config.envelope}". Use one of: ${ENVELOPE_MODES.join(', ')}`);
+  }
+  
+  if (retry.maxAttempts !== undefined && (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1)) {
+    throw new Error(`Invalid retry max attempts "${config.retryMaxAttempts}", expected a positive integer`);
+  }
+  if (retry.baseDelay !== undefined && (!Number.isInteger(retry.baseDelay) || retry.baseDelay < 0)) {
+    throw new Error(`Invalid retry base delay "${config.retryBaseDelay}", expected a number of milliseconds`);
+  }
+  if (retry.maxDelay !== undefined && (!Number.isInteger(retry.maxDelay) || retry.maxDelay < 0)) {
+    throw new Error(`Invalid retry max delay "${config.retryMaxDelay}", expected a number of milliseconds`);
+  }
+  const invalidStatus = retry.retryableStatuses?.find((status) => !Number.isInteger(status) || status < 100 || status > 599);
+  if (invalidStatus !== undefined) {
+    throw new Error(`Invalid retry statuses "${config.retryStatuses}", expected comma-separated HTTP status codes`);
+  }
+  
+  if (sessionIdleTimeout !== undefined && (!Number.isInteger(sessionIdleTimeout) || sessionIdleTimeout < 0)) {
+    throw new Error(`Invalid session idle timeout "${config.sessionIdleTimeout}", expected a number of milliseconds`);
+  }
+  if (timeout !== undefined && (!Number.isInteger(timeout) || timeout < 0)) {
+    throw new Error(`Invalid timeout "${config.timeout}", expected a number of milliseconds`);
+  }
+  const invalidOperationTimeout = Object.entries(operationTimeoutValues ?? {})
+    .find(([, value]) => !/^\d+$/.test(value));
+  if (invalidOperationTimeout) {
+    throw new Error(`Invalid timeout "${invalidOperationTimeout[1]}" for operation "${invalidOperationTimeout[0]}", expected operationId=milliseconds`);
+  }
+  const operationTimeouts = operationTimeoutValues
+    && Object.fromEntries(Object.entries(operationTimeoutValues).map(([operationId, value]) => [operationId, Number(value)]));
+  
+  const limits: [string, LimitOptions][] = [
+    ['global', rateLimits.global ?? {}],
+    ['per host', rateLimits.perHost ?? {}],
+    ...Object.entries(rateLimits.operations ?? {}).map(([operationId, limit]): [string, LimitOptions] => [`operation ${operationId}`, limit]),
+  ];
+  for (const [name, { rate, concurrency }] of limits) {
+    if (rate !== undefined && (!Number.isFinite(rate) || rate <= 0)) {
+      throw new Error(`Invalid ${name} rate limit, expected a positive number of requests per second`);
+    }
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+      throw new Error(`Invalid ${name} concurrency limit, expected a positive integer`);
+    }
+  }
+  if (rateLimits.maxWait !== undefined && (!Number.isInteger(rateLimits.maxWait) || rateLimits.maxWait < 0)) {
+    throw new Error(`Invalid max queue wait "${config.maxQueueWait}", expected a number of milliseconds`);
+  }
+  
+  if (pagination.maxPages !== undefined && (!Number.isInteger(pagination.maxPages) || pagination.maxPages < 1)) {
+    throw new Error(`Invalid max pages "${config.maxPages}", expected a positive integer`);
+  }
+  if (pagination.maxItems !== undefined && (!Number.isInteger(pagination.maxItems) || pagination.maxItems < 1)) {
+    throw new Error(`Invalid max items "${config.maxItems}", expected a positive integer`);
+  }
+  
+  const unsupportedMethod = [...(operationFilters.includeMethods ?? []), ...(operationFilters.excludeMethods ?? [])]
+    .find((method) => !HTTP_METHODS.includes(method.toLowerCase()));
+  if (unsupportedMethod) {
+    throw new Error(`Unsupported HTTP method "${unsupportedMethod}" in operation filters. Use one of: ${HTTP_METHODS.join(', ')}`);
+  }
+  const unsupportedConfirmMethod = confirm.methods?.find((method) => !HTTP_METHODS.includes(method.toLowerCase()));
+  if (unsupportedConfirmMethod) {
+    throw new Error(`Unsupported HTTP method "${unsupportedConfirmMethod}" in confirm methods. Use one of: ${HTTP_METHODS.join(', ')}, none`);
+  }
+  
+  if (readOnly && getMethodOverrides([], JSON.parse(headers)).length > 0) {
+    throw new Error("Method override headers cannot be combined with read-only mode");
   }
   
   // Validate certificate auth (both cert and key required)
@@ -131,17 +483,52 @@ async function startServer(config: ServerConfig): Promise<void> {
     logger.debug('OpenAPI client initialized successfully');
     
     logger.debug('Getting operations from OpenAPI client');
-    const operations = getOperations(openApiClient);
+    const operations = getOperations(openApiClient, operationFilters, naming);
+    const schemas = getComponentSchemas(openApiClient);
     logger.info(`Found ${operations} operations in OpenAPI specification`);
     
-    logger.debug('Creating MCP server');
-    const mcpServer = createMcpServer();
-    logger.debug('Setting up server tools');
-    setupServerTools(mcpServer, operations);
-    logger.info('MCP server initialized with operations');
+    // the limits apply to the upstream APIs, so all sessions share them
+    const rateLimiter = createRateLimiter(rateLimits);
+    
+    const buildMcpServer = () => {
+      logger.debug('Creating MCP server');
+      const mcpServer = createMcpServer();
+      logger.debug('Setting up server tools');
+      setupServerTools(mcpServer, operations, {
+        maxSchemaDepth,
+        schemas,
+        maxBinarySize,
+        responseBudget,
+        envelope,
+        descriptions,
+        readOnly,
+        confirm,
+        dryRun,
+        retry,
+        timeout,
+        operationTimeouts,
+        rateLimiter,
+        pagination,
+      });
+      logger.info('MCP server initialized with operations');
+      return mcpServer;
+    };
 
-    logger.debug('Configuring stdio server');
-    await configureStdioServer(mcpServer);
+    if (!isStdio) {
+      // Every HTTP/SSE session gets its own server instance sharing the same operations
+      logger.debug('Configuring HTTP server', { port, host: config.host, transports });
+      await configureHttpServer(buildMcpServer, {
+        port,
+        host: config.host,
+        transports: transports as HttpTransportType[],
+        allowedHosts: parseList(config.allowedHosts),
+        allowedOrigins: parseList(config.allowedOrigins),
+        sessionIdleTimeout,
+      });
+    } else {
+      logger.debug('Configuring stdio server');
+      await configureStdioServer(buildMcpServer());
+    }
     logger.info('Server started successfully');
   } catch (error) {
     logger.error('Failed to initialize server', { 
@@ -1,6 +1,9 @@
-import OpenAPIClientAxios, { AxiosResponse, HttpMethod, OpenAPIClient, OpenAPIV3 } from "openapi-client-axios";
+import OpenAPIClientAxios, { AxiosRequestConfig, AxiosResponse, HttpMethod, Operation, OpenAPIClient, OpenAPIV3 } from "openapi-client-axios";
 import { loadOpenApiSpec } from "../utils/load-openapi-definition";
+import { OpenApiDefinition } from "../utils/normalize-openapi-definition";
+import { filterOperations, OperationFilterOptions } from "../utils/operation-filter";
 import logger from "../utils/logger";
+import { getMethodPathName, getToolNames, ToolNamingOptions } from "../utils/tool-naming";
 import {
     AuthType, 
     createAuthConfigFromEnv, 
@@ -9,18 +12,108 @@ import {
     getAuthenticatedClient
 } from "./auth-operations";
 
+/**
+ * the request an operation call would send, with the client defaults (base URL, auth headers) applied
+ */
+export interface ResolvedRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    data?: unknown;
+    /**
+     * the values of the headers from `--headers` and the auth configuration, never shown
+     */
+    secrets: string[];
+}
+
 export interface OperationEntry {
     parameters: OpenAPIV3.ParameterObject[];
+    requestBody?: OpenAPIV3.RequestBodyObject;
+    responses?: OpenAPIV3.ResponsesObject;
     description: string;
     operationId: string;
+    /**
+     * the name of the MCP tool, the operationId when not set
+     */
+    toolName?: string;
+    method: HttpMethod;
+    path: string;
+    summary?: string;
+    deprecated?: boolean;
+    tags: string[];
+    /**
+     * the `x-*` vendor extensions declared on the operation
+     */
+    extensions: Record<string, unknown>;
     callback: (params?: any, data?: any, config?: any) => Promise<AxiosResponse>;
+    resolveRequest: (params?: any, data?: any, config?: AxiosRequestConfig) => ResolvedRequest;
+}
+
+/**
+ * the server URL with its `{variables}` replaced by their defaults,
+ * undefined when a variable has no default
+ */
+function getServerUrl(server: OpenAPIV3.ServerObject): string | undefined {
+    let complete = true;
+    const url = server.url.replace(/\{([^}]*)\}/g, (_, name: string) => {
+        const value = server.variables?.[name]?.default;
+        if (value === undefined) {
+            complete = false;
+            return '';
+        }
+        return String(value);
+    });
+    if (!complete) {
+        logger.debug('Skipping server URL with a variable without default', { url: server.url });
+        return undefined;
+    }
+    return url;
 }
 
-export async function getOpenApiClient(specUrl: string, baseURL: string, headers: any = {}) {
+/**
+ * the first absolute server URL declared by the spec,
+ * for Swagger 2.0 specs this is derived from host, schemes and basePath
+ */
+function getSpecBaseUrl(definition: OpenApiDefinition) {
+    return definition.servers
+        ?.map(getServerUrl)
+        .find((url): url is string => url !== undefined && /^https?:\/\//.test(url));
+}
+
+/**
+ * the spec without path and operation servers, the client would send those requests there instead of the base URL
+ */
+function withoutOperationServers(definition: OpenApiDefinition): OpenApiDefinition {
+    const paths = Object.fromEntries(Object.entries(definition.paths ?? {}).map(([path, pathItem]) => {
+        const copy: Record<string, any> = { ...pathItem };
+        delete copy.servers;
+        for (const method of Object.values(HttpMethod)) {
+            if (copy[method]?.servers) {
+                copy[method] = { ...copy[method] };
+                delete copy[method].servers;
+            }
+        }
+        return [path, copy];
+    }));
+    return { ...definition, paths } as OpenApiDefinition;
+}
+
+export async function getOpenApiClient(specUrl: string, baseURLOverride?: string, headers: any = {}) {
     logger.debug('Creating OpenAPI client instance', { specUrl });
+    let baseURL = baseURLOverride;
     try {
-        const definition = await loadOpenApiSpec(specUrl);
-        logger.debug('OpenAPI specification loaded successfully', { definition});
+        const loadedDefinition = await loadOpenApiSpec(specUrl);
+        logger.debug('OpenAPI specification loaded successfully', { definition: loadedDefinition });
+        // an explicit base URL applies to every operation
+        const definition = baseURLOverride ? withoutOperationServers(loadedDefinition) : loadedDefinition;
+        
+        baseURL ||= getSpecBaseUrl(definition);
+        if (!baseURL) {
+            throw new Error("Base URL is required. Provide it via --base-url flag or OPENAPI_SPEC_BASE_URL env var, or declare an absolute server URL in the spec");
+        }
+        if (!baseURLOverride) {
+            logger.info('Using base URL from the OpenAPI specification', { baseURL });
+        }
         
         const openApi = new OpenAPIClientAxios({ definition });
         
@@ -75,32 +168,83 @@ function getClientFunction(client: OpenAPIClient, path: string, method: HttpMeth
     });
 }
 
-export function getOperations(client: OpenAPIClient) {
+/**
+ * the headers configured on the client, from `--headers` and the auth configuration
+ */
+function getCustomHeaders(client: OpenAPIClient): Record<string, string> {
+    const defaults = (client.defaults?.headers ?? {}) as Record<string, any>;
+    const methodKeys = ['common', 'get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+    return Object.fromEntries(Object.entries(defaults)
+        .filter(([name, value]) => !methodKeys.includes(name) && typeof value === 'string'));
+}
+
+/**
+ * the default headers of the client: the common ones, the method specific ones and the custom ones
+ */
+function getDefaultHeaders(client: OpenAPIClient, method: string): Record<string, string> {
+    const defaults = (client.defaults?.headers ?? {}) as Record<string, any>;
+    return { ...defaults.common, ...defaults[method], ...getCustomHeaders(client) };
+}
+
+function getRequestResolver(client: OpenAPIClient, operation: Operation) {
+    return (params?: any, data?: any, config?: AxiosRequestConfig): ResolvedRequest => {
+        const axiosConfig = client.api.getAxiosConfigForOperation(operation, [params, data, config]);
+        const method = (axiosConfig.method ?? operation.method).toLowerCase();
+        return {
+            method: method.toUpperCase(),
+            url: client.getUri(axiosConfig),
+            headers: { ...getDefaultHeaders(client, method), ...(axiosConfig.headers as Record<string, string>) },
+            data: axiosConfig.data,
+            secrets: Object.values(getCustomHeaders(client)),
+        };
+    };
+}
+
+/**
+ * the component schemas of the dereferenced definition, the very objects the operations point at
+ */
+export function getComponentSchemas(client: OpenAPIClient): Record<string, OpenAPIV3.SchemaObject> {
+    return (client.api.definition?.components?.schemas ?? {}) as Record<string, OpenAPIV3.SchemaObject>;
+}
+
+function getVendorExtensions(operation: object): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(operation).filter(([key]) => key.startsWith('x-')));
+}
+
+export function getOperations(client: OpenAPIClient, filters: OperationFilterOptions = {}, naming: ToolNamingOptions = {}) {
     logger.debug('Extracting operations from OpenAPI client');
     
     try {
         const operations = client.api.getOperations().map((operation) => {
-            const { path, method, parameters, description } = operation;
+            const { path, method, parameters, requestBody, responses, description, summary, deprecated, tags = [] } = operation;
 
-            // if the operationId is not set:
-            // 1. use the description (replace all non-alphanumeric characters with _)
-            // 2. use the method and path (replace all non-alphanumeric characters with _)
-            const operationId = operation.operationId || 
-                description?.replaceAll(/[^a-zA-Z0-9_-]/g, "_")?.slice(0, 64) || 
-                `${method}_${path.replaceAll(/[^a-zA-Z0-9_-]/g, "_").slice(-55)}`;
+            // operations without an operationId are named after the method and path, which stay stable
+            const operationId = operation.operationId || getMethodPathName(method, path);
             
             logger.debug('Mapped operation', { operationId, path, method });
             
             return {
                 parameters,
+                // the definition is dereferenced by the client, so no $ref is left here
+                requestBody: requestBody as OpenAPIV3.RequestBodyObject | undefined,
+                responses,
                 description,
                 operationId,
+                method,
+                path,
+                summary,
+                deprecated,
+                tags,
+                extensions: getVendorExtensions(operation),
                 callback: getClientFunction(client, path, method),
+                resolveRequest: getRequestResolver(client, operation),
             } as OperationEntry;
         });
         
         logger.info(`Extracted ${operations.length} operations from OpenAPI specification`);
-        return operations;
+        const filtered = filterOperations(operations, filters);
+        const toolNames = getToolNames(filtered, naming);
+        return filtered.map((operation, index) => ({ ...operation, toolName: toolNames[index] }));
     } catch (error) {
         logger.error('Failed to extract operations from OpenAPI client', {
             error: error instanceof Error ? error.message : String(error)
@@ -1,17 +1,206 @@
+import { createServer as createHttpServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { randomUUID } from "node:crypto";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { AxiosError } from "openapi-client-axios";
-import { parametersArrayToUnifiedSchema, unifiedArgumentsToParametersArray } from "../utils/tool-utils";
-import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import axios from "axios";
+import { AxiosError, AxiosRequestConfig, OpenAPIV3 } from "openapi-client-axios";
+import { z, ZodRawShape } from "zod";
+import {
+    getReservedArguments,
+    getToolAnnotations,
+    OUTPUT_DATA_KEY,
+    parametersArrayToUnifiedSchema,
+    responsesToOutputSchema,
+    unifiedArgumentsToParametersArray
+} from "../utils/tool-utils";
+import { CallToolResult, isInitializeRequest, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { OperationEntry } from "./openapi-operations";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { OperationEntry, ResolvedRequest } from "./openapi-operations";
+import { ConfirmationOptions, getConfirmationMessage, requiresConfirmation } from "../utils/confirmation";
+import {
+    DRY_RUN_ARGUMENT,
+    DRY_RUN_OUTPUT_KEY,
+    DryRunRequest,
+    dryRunRequestSchema,
+    getDryRunRequest,
+    toCurlCommand
+} from "../utils/dry-run";
+import { summarizeErrorResponse } from "../utils/error-response";
+import { getQueryParameters, getReadOnlyViolation } from "../utils/read-only";
+import { DnsRebindingOptions, getAllowedHosts, getAllowedOrigins, getDnsRebindingViolation } from "../utils/dns-rebinding";
+import {
+    applyNextPage,
+    collectPages,
+    CONTINUATION_ARGUMENT,
+    decodeContinuation,
+    getPaginationConfig,
+    isSameOrigin,
+    NextPage,
+    PAGINATION_OUTPUT_KEY,
+    PaginationConfig,
+    PaginationOptions,
+    PaginationSummary,
+    paginationSummarySchema
+} from "../utils/pagination";
+import { QUEUE_TIMEOUT_CODE, RateLimiter } from "../utils/rate-limit";
+import { EnvelopeOptions, getResultEnvelope } from "../utils/result-envelope";
+import { buildToolDescription, DescriptionOptions } from "../utils/tool-description";
+import {
+    applyResponseBudget,
+    FIELDS_ARGUMENT,
+    ResponseBudgetOptions,
+    TRUNCATION_OUTPUT_KEY,
+    TruncationSummary,
+    truncationSummarySchema
+} from "../utils/response-budget";
+import { RetryAttempt, RetryOptions, withRetries } from "../utils/retry";
+import { getOperationTimeout, isCancellation, isTimeoutError, TimeoutOptions, withDeadline } from "../utils/timeout";
+import { decodeResponseData, DEFAULT_MAX_BINARY_SIZE, getContentDispositionFilename } from "../utils/response-content";
 import logger from "../utils/logger";
 
 interface ToolCallResult {
     statusCode: number;
     headers: Record<string, string>;
     data: any;
+    /**
+     * the resolved request URL, used as the URI of binary responses
+     */
+    url?: string;
+    /**
+     * set when the request failed before a response was received
+     */
+    transportError?: string;
+    /**
+     * set when the request was refused and never sent, the status code is 0 then
+     */
+    refusal?: string;
+    /**
+     * set on dry runs, the request that would have been sent, the status code is 0 then
+     */
+    dryRun?: DryRunRequest;
+    /**
+     * the curl command equivalent to the dry run request
+     */
+    curl?: string;
+    /**
+     * set when the pages of a paginated response were combined into data
+     */
+    pagination?: PaginationSummary;
+    /**
+     * set when the data was projected or truncated to fit the response budget
+     */
+    truncation?: TruncationSummary;
 }
 
+/**
+ * HTTP based transports that can be served side by side on a single port:
+ * - `http`: Streamable HTTP on MCP_ENDPOINT
+ * - `sse`: legacy HTTP+SSE (GET SSE_ENDPOINT, POST SSE_MESSAGES_ENDPOINT)
+ */
+export type HttpTransportType = 'http' | 'sse';
+
+export interface HttpServerOptions {
+    port: number;
+    host?: string;
+    transports?: HttpTransportType[];
+    /**
+     * Host header values accepted besides the bound host and the loopback names
+     */
+    allowedHosts?: string[];
+    /**
+     * browser origins accepted besides those of the allowed hosts
+     */
+    allowedOrigins?: string[];
+    /**
+     * milliseconds without requests after which a Streamable HTTP session is closed, 0 keeps sessions open
+     */
+    sessionIdleTimeout?: number;
+}
+
+/**
+ * the state of the Streamable HTTP sessions of a server
+ */
+interface StreamableHttpSessions {
+    transports: Map<string, StreamableHTTPServerTransport>;
+    idleTimers: Map<string, NodeJS.Timeout>;
+    idleTimeout: number;
+    dnsRebinding: DnsRebindingOptions;
+}
+
+export interface ServerToolOptions extends TimeoutOptions {
+    /**
+     * nesting depth beyond which tool input schemas are emitted as permissive objects
+     */
+    maxSchemaDepth?: number;
+    /**
+     * the dereferenced component schemas of the document, see getComponentSchemas
+     */
+    schemas?: Record<string, OpenAPIV3.SchemaObject>;
+    /**
+     * size in bytes above which binary responses are returned as a resource link
+     */
+    maxBinarySize?: number;
+    /**
+     * refuse requests with an unsafe method, including method overrides
+     */
+    readOnly?: boolean;
+    /**
+     * operations the user has to confirm through an elicitation before the request is sent
+     */
+    confirm?: ConfirmationOptions;
+    /**
+     * return the resolved request of every call instead of sending it
+     */
+    dryRun?: boolean;
+    retry?: RetryOptions;
+    /**
+     * rate and concurrency limits in front of the requests, shared by every server using these options
+     */
+    rateLimiter?: RateLimiter;
+    pagination?: PaginationOptions;
+    responseBudget?: ResponseBudgetOptions;
+    envelope?: EnvelopeOptions;
+    descriptions?: DescriptionOptions;
+}
+
+/**
+ * called with the resolved request before it is sent, returns why it may not be sent
+ */
+type RequestGuard = (request: ResolvedRequest) => Promise<string | undefined>;
+
+/**
+ * per-tool and per-call state of a tool call
+ */
+interface ToolCallContext {
+    guard?: RequestGuard;
+    /**
+     * whether failed requests may be sent again, from the idempotentHint annotation
+     */
+    idempotent?: boolean;
+    onRetry?: (retry: RetryAttempt) => Promise<void>;
+    /**
+     * aborted when the client cancels the tool call
+     */
+    signal?: AbortSignal;
+    /**
+     * how to fetch the next pages, for paginated operations
+     */
+    pagination?: PaginationConfig;
+}
+
+export const MCP_ENDPOINT = '/mcp';
+export const SSE_ENDPOINT = '/sse';
+export const SSE_MESSAGES_ENDPOINT = '/messages';
+export const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+/**
+ * the largest JSON-RPC message accepted, the limit of the SDK transports
+ */
+export const MAX_REQUEST_BODY_SIZE = 4 * 1024 * 1024;
+
 export function createMcpServer() {
     logger.debug('Creating new MCP server instance');
     return new McpServer({
@@ -21,27 +210,158 @@ export function createMcpServer() {
     });
 }
 
-async function onToolCall(args: Record<string, any>, entry: OperationEntry): Promise<ToolCallResult> {
+function getRequestUrl(config?: AxiosRequestConfig) {
+    return config ? axios.getUri(config) : undefined;
+}
+
+/**
+ * the upstream host for per-host limits, only resolved when such limits are configured
+ */
+function getRequestHost(rateLimiter: RateLimiter, entry: OperationEntry, params: unknown, body: unknown, config: AxiosRequestConfig) {
+    if (!rateLimiter.usesHosts) {
+        return undefined;
+    }
+    const { url } = entry.resolveRequest(params, body, config);
+    try {
+        return new URL(url).host;
+    }
+    catch {
+        return undefined;
+    }
+}
+
+/**
+ * The page a continuation token points to, or why it is refused.
+ * Next URLs are only followed on the origin of the operation, where its credentials are meant to go.
+ */
+function getContinuationPage(entry: OperationEntry, continuation: string, operationUrl: string): NextPage | string {
+    try {
+        const next = decodeContinuation(entry.operationId, continuation);
+        return 'url' in next && !isSameOrigin(next.url, operationUrl)
+            ? `The continuation token of operation ${entry.operationId} points to another origin`
+            : next;
+    }
+    catch (error: any) {
+        return error.message;
+    }
+}
+
+async function onToolCall(
+    args: Record<string, any>,
+    entry: OperationEntry,
+    options: ServerToolOptions = {},
+    context: ToolCallContext = {}
+): Promise<ToolCallResult> {
+    const { guard, idempotent = false, onRetry, signal, pagination } = context;
+    const timeout = getOperationTimeout(entry, options);
     const { operationId } = entry;
     logger.debug(`Executing tool call: ${operationId}`, { args });
     
     try {
-        const { parameters: entryParameters, callback } = entry;
-        const {params, body} = unifiedArgumentsToParametersArray(args, entryParameters);
+        const { parameters: entryParameters, requestBody, callback } = entry;
+        const {params: argumentParams, body, contentType} = unifiedArgumentsToParametersArray(args, entryParameters, requestBody);
+        let params = argumentParams;
         
-        logger.debug(`Calling OpenAPI operation: ${operationId}`, { params, bodySize: body ? 'present' : 'none' });
-        const response = await callback(params, body);
+        if (options.readOnly) {
+            const violation = getReadOnlyViolation(entry.method, entry.extensions, params);
+            if (violation) {
+                logger.warn(`Refused operation ${operationId}`, { violation });
+                return { statusCode: 0, headers: {}, data: undefined, refusal: violation };
+            }
+        }
         
-        logger.info(`OpenAPI operation completed: ${operationId}`, { 
-            status: response.status, 
-            hasData: !!response.data 
-        });
+        // raw bytes keep binary bodies intact, text and JSON are decoded afterwards
+        let config: AxiosRequestConfig = { responseType: 'arraybuffer', timeout, signal };
+        if (contentType) {
+            config.headers = { 'Content-Type': contentType };
+        }
+
+        // next page URLs replace the query of the request, which may tunnel another method
+        const getNextPageViolation = (request: { params: typeof params; config: AxiosRequestConfig }) => options.readOnly && request.config.url
+            ? getReadOnlyViolation(entry.method, entry.extensions, [...request.params, ...getQueryParameters(request.config.url)])
+            : undefined;
+
+        const continuation = args[CONTINUATION_ARGUMENT];
+        if (pagination && typeof continuation === 'string') {
+            const next = getContinuationPage(entry, continuation, entry.resolveRequest(params, body, config).url);
+            if (typeof next === 'string') {
+                logger.warn(`Refused operation ${operationId}`, { refusal: next });
+                return { statusCode: 0, headers: {}, data: undefined, refusal: next };
+            }
+            ({ params, config } = applyNextPage(next, params, config, pagination));
+            const violation = getNextPageViolation({ params, config });
+            if (violation) {
+                logger.warn(`Refused operation ${operationId}`, { violation });
+                return { statusCode: 0, headers: {}, data: undefined, refusal: violation };
+            }
+        }
+
+        const dryRunRequested = getReservedArguments(entryParameters).includes(DRY_RUN_ARGUMENT) && args[DRY_RUN_ARGUMENT] === true;
+        if (options.dryRun || dryRunRequested) {
+            const dryRun = getDryRunRequest(entry.resolveRequest(params, body, config));
+            logger.info(`Dry run of operation ${operationId}`, { method: dryRun.method, url: dryRun.url });
+            return { statusCode: 0, headers: {}, data: undefined, dryRun, curl: toCurlCommand(dryRun, body) };
+        }
+
+        if (guard) {
+            const refusal = await guard(entry.resolveRequest(params, body, config));
+            if (refusal) {
+                logger.warn(`Refused operation ${operationId}`, { refusal });
+                return { statusCode: 0, headers: {}, data: undefined, refusal };
+            }
+        }
+
+        const { rateLimiter } = options;
+        const sendRequest = (requestParams: typeof params, requestConfig: AxiosRequestConfig) => {
+            logger.debug(`Calling OpenAPI operation: ${operationId}`, { params: requestParams, bodySize: body ? 'present' : 'none', contentType });
+            const send = () => withDeadline(timeout, signal, (attemptSignal) =>
+                callback(requestParams, body, { ...requestConfig, signal: attemptSignal }));
+            const limitedSend = rateLimiter
+                ? () => rateLimiter.schedule({ operationId, host: getRequestHost(rateLimiter, entry, requestParams, body, requestConfig) }, send, signal)
+                : send;
+            return withRetries(limitedSend, {
+                idempotent,
+                signal,
+                onRetry: async (retry) => {
+                    logger.warn(`Retrying operation ${operationId} after ${retry.reason} in ${retry.delay}ms`, {
+                        attempt: retry.attempt,
+                        maxAttempts: retry.maxAttempts,
+                    });
+                    await onRetry?.(retry);
+                },
+            }, options.retry);
+        };
+        const fetchPage = async (requestParams: typeof params, requestConfig: AxiosRequestConfig) => {
+            const response = await sendRequest(requestParams, requestConfig);
+            logger.info(`OpenAPI operation completed: ${operationId}`, { 
+                status: response.status, 
+                hasData: !!response.data 
+            });
+            const headers = response.headers as Record<string, string>;
+            return {
+                statusCode: response.status,
+                headers,
+                data: decodeResponseData(response.data, headers?.['content-type']),
+                url: getRequestUrl(response.config),
+            };
+        };
         
-        return {
-            statusCode: response.status,
-            headers: response.headers as Record<string, string>,
-            data: response.data
+        const result: ToolCallResult = await fetchPage(params, config);
+        if (pagination) {
+            const collected = await collectPages(operationId, result, params, pagination, (next) => {
+                const nextRequest = applyNextPage(next, params, config, pagination);
+                const violation = getNextPageViolation(nextRequest);
+                if (violation) {
+                    throw new Error(violation);
+                }
+                return fetchPage(nextRequest.params, nextRequest.config);
+            });
+            if (collected) {
+                result.data = collected.data;
+                result.pagination = collected.summary;
+            }
         }
+        return result;
     }
     catch (error: any) {
         if (error?.response) {
@@ -51,84 +371,358 @@ async function onToolCall(args: Record<string, any>, entry: OperationEntry): Pro
                 message: axiosError.message 
             });
             
+            const headers = axiosError.response?.headers as Record<string, string>;
             return {
                 statusCode: axiosError?.response?.status ?? 500,
-                headers: axiosError.response?.headers as Record<string, string>,
-                data: axiosError.response?.data
+                headers,
+                data: decodeResponseData(axiosError.response?.data, headers?.['content-type']),
+                url: getRequestUrl(axiosError.config),
             }
         }
         
+        if (signal?.aborted || isCancellation(error ?? {})) {
+            logger.info(`Operation ${operationId} was cancelled by the client`);
+            return { statusCode: 500, headers: {}, data: undefined, transportError: 'Cancelled by the client' };
+        }
+        if (isTimeoutError(error ?? {})) {
+            logger.warn(`Operation ${operationId} timed out`, { timeout });
+            return { statusCode: 500, headers: {}, data: undefined, transportError: `Timed out after ${timeout}ms` };
+        }
+        
+        if (error?.code === QUEUE_TIMEOUT_CODE) {
+            return { statusCode: 500, headers: {}, data: undefined, transportError: `Not sent because of rate limits: ${error.message}` };
+        }
+        
         logger.error(`Unexpected error in operation ${operationId}`, { 
             error: error.message ?? error,
+            code: error.code,
             stack: error.stack
         });
         
+        const message = error.message ?? String(error);
         return {
             statusCode: 500,
             headers: {},
-            data: error.message ?? error
+            data: message,
+            transportError: error.code ? `${error.code}: ${message}` : message,
         }
     }
 }
 
-function getContentObject(result: ToolCallResult): CallToolResult['content'][number] {
-    const { headers, data } = result;
-    const contentType = headers['content-type'] || headers['Content-Type'] || 'application/json';
-    
-    logger.debug('Processing tool call result', { 
-        statusCode: result.statusCode, 
-        contentType 
-    });
+function getResponseContentType(headers: Record<string, string> = {}) {
+    return headers['content-type'] || headers['Content-Type'] || 'application/json';
+}
 
-    if (contentType.startsWith('image/')) {
-        logger.debug('Returning image content');
+/**
+ * Binary bodies are sent inline as base64: image and audio content for those types,
+ * an embedded resource blob for everything else. Above maxBinarySize only a link is returned.
+ */
+function getBinaryContentObject(
+    result: ToolCallResult,
+    data: Buffer,
+    contentType: string,
+    operationId: string,
+    options: ServerToolOptions
+): CallToolResult['content'][number] {
+    const mimeType = contentType.split(';')[0].trim();
+    const uri = result.url ?? `openapi-response://${operationId}`;
+    const maxBinarySize = options.maxBinarySize ?? DEFAULT_MAX_BINARY_SIZE;
+
+    if (data.length > maxBinarySize) {
+        logger.info(`Binary response of ${operationId} exceeds the inline size limit, returning a resource link`, {
+            size: data.length,
+            maxBinarySize,
+            mimeType
+        });
+        const headers = result.headers ?? {};
         return {
-            type: 'image',
-            data,
-            mimeType: contentType,
+            type: 'resource_link',
+            uri,
+            name: getContentDispositionFilename(headers['content-disposition'] || headers['Content-Disposition']) ?? operationId,
+            mimeType,
+            description: `${data.length} byte ${mimeType} response, larger than the ${maxBinarySize} byte inline limit`,
         };
     }
-    if (contentType.startsWith('audio/')) {
+
+    const base64 = data.toString('base64');
+    if (mimeType.startsWith('image/')) {
+        logger.debug('Returning image content');
+        return { type: 'image', data: base64, mimeType };
+    }
+    if (mimeType.startsWith('audio/')) {
         logger.debug('Returning audio content');
-        return {
-            type: 'audio',
-            data,
-            mimeType: contentType,
-        };
+        return { type: 'audio', data: base64, mimeType };
+    }
+    logger.debug('Returning embedded binary resource', { mimeType, size: data.length });
+    return { type: 'resource', resource: { uri, mimeType, blob: base64 } };
+}
+
+function getContentObject(result: ToolCallResult, operationId: string, options: ServerToolOptions): CallToolResult['content'][number] {
+    const contentType = getResponseContentType(result.headers);
+    const { statusCode, headers, data } = result;
+    
+    logger.debug('Processing tool call result', { 
+        statusCode, 
+        contentType 
+    });
+
+    if (Buffer.isBuffer(data)) {
+        return getBinaryContentObject(result, data, contentType, operationId, options);
     }
 
     logger.debug('Returning text/JSON content');
+    const envelope = getResultEnvelope(
+        { statusCode, headers, data },
+        { pagination: result.pagination, truncation: result.truncation },
+        options.envelope
+    );
+    // text bodies returned on their own are not quoted
+    if (typeof envelope === 'string' && !contentType.includes('json')) {
+        return { type: 'text', text: envelope, mimeType: contentType.split(';')[0].trim() };
+    }
     return {
         type: 'text',
-        text: JSON.stringify(result, null, 2),
+        // bodies of empty responses are undefined
+        text: JSON.stringify(envelope, null, 2) ?? '',
         mimeType: 'application/json',
     }
 }
 
-function createToolFromOperationEntry(server: McpServer, entry: OperationEntry) {
-    const { parameters, description, operationId } = entry;
+/**
+ * The content of a result. Bodies returned on their own are followed by
+ * the pagination and truncation summaries, the other envelopes include them.
+ */
+function getResultContent(result: ToolCallResult, operationId: string, options: ServerToolOptions): CallToolResult['content'] {
+    const content: CallToolResult['content'] = [getContentObject(result, operationId, options)];
+    const { pagination, truncation } = result;
+    if (options.envelope?.mode === 'body' && (pagination || truncation)) {
+        content.push({ type: 'text', text: JSON.stringify({ pagination, truncation }, null, 2), mimeType: 'application/json' });
+    }
+    return content;
+}
+
+function isSuccessStatus(statusCode: number) {
+    return statusCode >= 200 && statusCode < 300;
+}
+
+/**
+ * Failed calls lead with a short summary of what went wrong,
+ * the raw response stays available in the content after it.
+ */
+function getErrorResult(result: ToolCallResult, operationId: string, options: ServerToolOptions): CallToolResult {
+    if (result.refusal) {
+        return { content: [{ type: 'text', text: result.refusal }], isError: true };
+    }
+    const summary = result.transportError
+        ? `Request failed before a response was received: ${result.transportError}`
+        : summarizeErrorResponse(result.statusCode, getResponseContentType(result.headers), result.data);
+    logger.debug(`Returning error result for operation ${operationId}`, { summary });
+    return {
+        content: [{ type: 'text', text: summary }, ...getResultContent(getBudgetedResult(result, options), operationId, options)],
+        isError: true,
+    };
+}
+
+function getDryRunResult(dryRun: DryRunRequest, curl = ''): CallToolResult {
+    return {
+        content: [
+            { type: 'text', text: JSON.stringify(dryRun, null, 2), mimeType: 'application/json' },
+            { type: 'text', text: curl },
+        ],
+        structuredContent: { [DRY_RUN_OUTPUT_KEY]: dryRun },
+    };
+}
+
+/**
+ * the result with its data projected to the requested fields and truncated to the response budget
+ */
+function getBudgetedResult(result: ToolCallResult, options: ServerToolOptions, fields?: string[]): ToolCallResult {
+    const { data, summary } = applyResponseBudget(result.data, fields, options.responseBudget);
+    return summary ? { ...result, data, truncation: summary } : result;
+}
+
+/**
+ * Results of tools with an output schema carry the body as structured content,
+ * the text content stays as a fallback for clients that do not read structured content.
+ * Bodies not matching the schema, also when projected or truncated, are left out of
+ * the structured content and only returned as text. The request succeeded, so that is
+ * no error: flagged as one, models would retry operations that are not idempotent.
+ */
+function getToolResult(
+    result: ToolCallResult,
+    operationId: string,
+    options: ServerToolOptions,
+    outputSchema?: z.AnyZodObject,
+    fields?: string[]
+): CallToolResult {
+    if (result.dryRun) {
+        return getDryRunResult(result.dryRun, result.curl);
+    }
+    if (!isSuccessStatus(result.statusCode)) {
+        return getErrorResult(result, operationId, options);
+    }
+    const budgeted = getBudgetedResult(result, options, fields);
+    const content = getResultContent(budgeted, operationId, options);
+    if (!outputSchema) {
+        return { content };
+    }
+
+    const validation = outputSchema.safeParse({ [OUTPUT_DATA_KEY]: result.data });
+    if (!validation.success) {
+        logger.warn(`Response of operation ${operationId} does not match its output schema`, {
+            issues: validation.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+        });
+        content.push({
+            type: 'text',
+            text: 'The response does not match the documented response schema, so it is only returned as text.',
+        });
+    }
+    const includeData = validation.success
+        && (!budgeted.truncation || outputSchema.safeParse({ [OUTPUT_DATA_KEY]: budgeted.data }).success);
+    // the data is optional in the output schema, the SDK requires structured content anyway
+    const structuredContent = {
+        ...(includeData ? { [OUTPUT_DATA_KEY]: budgeted.data } : {}),
+        ...(result.pagination ? { [PAGINATION_OUTPUT_KEY]: result.pagination } : {}),
+        ...(budgeted.truncation ? { [TRUNCATION_OUTPUT_KEY]: budgeted.truncation } : {}),
+    };
+    return { content, structuredContent };
+}
+
+/**
+ * Ask the user to confirm the request through an elicitation.
+ * Clients without elicitation support get a refusal, the request is never sent unconfirmed.
+ */
+async function confirmRequest(server: McpServer, operationId: string, request: ResolvedRequest): Promise<string | undefined> {
+    if (!server.server.getClientCapabilities()?.elicitation) {
+        return `The operation ${operationId} requires user confirmation, but the client does not support elicitation. The request was not sent.`;
+    }
+
+    logger.info(`Asking the user to confirm operation ${operationId}`, { method: request.method, url: request.url });
+    try {
+        const response = await server.server.elicitInput({
+            message: getConfirmationMessage(operationId, request),
+            requestedSchema: {
+                type: 'object',
+                properties: {
+                    confirm: { type: 'boolean', title: 'Send this request', default: true },
+                },
+            },
+        });
+        if (response.action === 'accept' && response.content?.confirm !== false) {
+            logger.info(`User confirmed operation ${operationId}`);
+            return undefined;
+        }
+        const action = response.action === 'cancel' ? 'cancelled' : 'declined';
+        return `The user ${action} the ${request.method} ${request.url} request of operation ${operationId}. The request was not sent.`;
+    }
+    catch (error: any) {
+        logger.error(`Confirmation of operation ${operationId} failed`, { error: error.message ?? error });
+        return `The operation ${operationId} could not be confirmed: ${error.message ?? error}. The request was not sent.`;
+    }
+}
+
+/**
+ * Report retries as progress notifications, when the client asked for progress with a progress token.
+ */
+function getRetryProgressReporter(extra?: RequestHandlerExtra<ServerRequest, ServerNotification>) {
+    const progressToken = extra?._meta?.progressToken;
+    if (!extra || progressToken === undefined) {
+        return undefined;
+    }
+    return async (retry: RetryAttempt) => {
+        await extra.sendNotification({
+            method: 'notifications/progress',
+            params: {
+                progressToken,
+                progress: retry.attempt,
+                total: retry.maxAttempts,
+                message: `Attempt ${retry.attempt} of ${retry.maxAttempts} failed with ${retry.reason}, retrying in ${retry.delay}ms`,
+            },
+        });
+    };
+}
+
+/**
+ * Dry runs return the resolved request instead of the response data,
+ * so both are optional in the structured output of tools with a response schema.
+ * Truncated data not matching the schema anymore is left out as well.
+ */
+function getOutputSchema(responseSchema?: ZodRawShape, paginated = false): ZodRawShape | undefined {
+    if (!responseSchema) {
+        return undefined;
+    }
+    return {
+        [OUTPUT_DATA_KEY]: responseSchema[OUTPUT_DATA_KEY].optional(),
+        [DRY_RUN_OUTPUT_KEY]: dryRunRequestSchema.optional(),
+        [TRUNCATION_OUTPUT_KEY]: truncationSummarySchema.optional(),
+        ...(paginated ? { [PAGINATION_OUTPUT_KEY]: paginationSummarySchema.optional() } : {}),
+    };
+}
+
+function createToolFromOperationEntry(server: McpServer, entry: OperationEntry, options: ServerToolOptions) {
+    const { parameters, requestBody, responses, operationId, method, summary, extensions } = entry;
     logger.debug(`Creating MCP tool for operation: ${operationId}`);
     
-    const tool = server.tool(
-        operationId,
-        description,
-        parametersArrayToUnifiedSchema(parameters),
-        async (args: Record<string, any>) => {
+    const annotations = getToolAnnotations(method, summary, extensions);
+    const schemaOptions = { maxDepth: options.maxSchemaDepth, schemas: options.schemas };
+    const reservedArguments = getReservedArguments(parameters);
+    const skippedArguments = getReservedArguments().filter((name) => !reservedArguments.includes(name));
+    if (skippedArguments.length > 0) {
+        logger.warn(`Tool ${operationId} has parameters named like reserved arguments, it goes without them`, { skippedArguments });
+    }
+    // continuation tokens are of no use without the argument to pass them back
+    const pagination = reservedArguments.includes(CONTINUATION_ARGUMENT)
+        ? getPaginationConfig(entry, options.pagination)
+        : undefined;
+    const outputSchema = getOutputSchema(responsesToOutputSchema(responses, schemaOptions), !!pagination);
+    const outputValidator = outputSchema ? z.object(outputSchema) : undefined;
+    const guard: RequestGuard | undefined = requiresConfirmation(entry, options.confirm)
+        ? (request) => confirmRequest(server, operationId, request)
+        : undefined;
+    const tool = server.registerTool(
+        entry.toolName ?? operationId,
+        {
+            title: annotations.title,
+            description: buildToolDescription(entry, options.descriptions),
+            inputSchema: {
+                ...parametersArrayToUnifiedSchema(parameters, requestBody, schemaOptions),
+                ...(reservedArguments.includes(DRY_RUN_ARGUMENT) ? {
+                    [DRY_RUN_ARGUMENT]: z.boolean().optional()
+                        .describe('Return the resolved HTTP request and an equivalent curl command instead of sending it'),
+                } : {}),
+                ...(reservedArguments.includes(FIELDS_ARGUMENT) ? {
+                    [FIELDS_ARGUMENT]: z.array(z.string()).optional()
+                        .describe('Only return these fields of the response, as dot paths like "items.id" applying to every array item'),
+                } : {}),
+                ...(pagination ? {
+                    [CONTINUATION_ARGUMENT]: z.string().optional()
+                        .describe('Continuation token of a previous call, fetches the pages after the ones it returned'),
+                } : {}),
+            },
+            outputSchema,
+            annotations,
+        },
+        async (args: Record<string, any>, extra?: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
             logger.debug(`Tool ${operationId} called with args`, { argCount: Object.keys(args).length });
-            const result = await onToolCall(args, entry);
+            const result = await onToolCall(args, entry, options, {
+                guard,
+                idempotent: annotations.idempotentHint,
+                onRetry: getRetryProgressReporter(extra),
+                signal: extra?.signal,
+                pagination,
+            });
             logger.debug(`Tool ${operationId} completed`, { statusCode: result.statusCode });
-            return {
-                content: [getContentObject(result)],
-            } as CallToolResult
+            const fields = reservedArguments.includes(FIELDS_ARGUMENT) ? args[FIELDS_ARGUMENT] : undefined;
+            return getToolResult(result, operationId, options, outputValidator, fields);
         }
     );
     return tool;
 }
 
-export function setupServerTools(server: McpServer, operations: OperationEntry[]) {
+export function setupServerTools(server: McpServer, operations: OperationEntry[], options: ServerToolOptions = {}) {
     logger.info(`Setting up ${operations.length} tools for MCP server`);
     operations.forEach((operation) => {
-        createToolFromOperationEntry(server, operation);
+        createToolFromOperationEntry(server, operation, options);
     });
     logger.info('MCP server tools setup complete');
 }
@@ -148,3 +742,259 @@ export async function configureStdioServer(server: McpServer) {
     }
 }
 
+/**
+ * The request body, undefined when it is larger than maxSize. The rest of a body over
+ * the limit is read and dropped, so that the response still reaches the client.
+ */
+async function readRequestBody(req: IncomingMessage, maxSize = MAX_REQUEST_BODY_SIZE): Promise<string | undefined> {
+    if (Number(req.headers['content-length']) > maxSize) {
+        return undefined;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += (chunk as Buffer).length;
+        if (size <= maxSize) {
+            chunks.push(chunk as Buffer);
+        }
+    }
+    return size > maxSize ? undefined : Buffer.concat(chunks).toString('utf8');
+}
+
+function sendJsonRpcError(res: ServerResponse, statusCode: number, code: number, message: string) {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+        jsonrpc: '2.0',
+        error: { code, message },
+        id: null,
+    }));
+}
+
+/**
+ * (re)start the idle timer of a session, the session is closed when it runs out
+ */
+function touchSession(sessions: StreamableHttpSessions, sessionId: string) {
+    clearTimeout(sessions.idleTimers.get(sessionId));
+    if (sessions.idleTimeout <= 0) {
+        return;
+    }
+    sessions.idleTimers.set(sessionId, setTimeout(() => {
+        logger.info('Closing idle Streamable HTTP session', { sessionId, idleTimeout: sessions.idleTimeout });
+        sessions.transports.get(sessionId)?.close();
+    }, sessions.idleTimeout).unref());
+}
+
+/**
+ * Streamable HTTP requests are routed by the `mcp-session-id` header.
+ * Each session gets its own McpServer (from the factory) bound to its own transport,
+ * since a single McpServer can only be connected to one transport at a time.
+ */
+async function handleStreamableHttpRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    serverFactory: () => McpServer,
+    sessions: StreamableHttpSessions
+) {
+    const { transports } = sessions;
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const existingTransport = sessionId ? transports.get(sessionId) : undefined;
+    if (sessionId && !existingTransport) {
+        // unknown or closed sessions get a 404, which tells clients to start a new session
+        logger.warn('Streamable HTTP request with unknown session', { method: req.method, sessionId });
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+    }
+    if (sessionId) {
+        touchSession(sessions, sessionId);
+    }
+
+    if (req.method !== 'POST') {
+        if (!existingTransport) {
+            logger.warn('Streamable HTTP request without a session', { method: req.method });
+            sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+            return;
+        }
+        await existingTransport.handleRequest(req, res);
+        return;
+    }
+
+    const raw = await readRequestBody(req);
+    if (raw === undefined) {
+        logger.warn('Streamable HTTP request body too large', { maxSize: MAX_REQUEST_BODY_SIZE });
+        res.setHeader('Connection', 'close');
+        sendJsonRpcError(res, 413, -32000, `Request body larger than ${MAX_REQUEST_BODY_SIZE} bytes`);
+        return;
+    }
+    let body: unknown;
+    try {
+        body = raw ? JSON.parse(raw) : undefined;
+    } catch (error) {
+        logger.warn('Failed to parse Streamable HTTP request body', {
+            error: error instanceof Error ? error.message : String(error)
+        });
+        sendJsonRpcError(res, 400, -32700, 'Parse error');
+        return;
+    }
+
+    if (existingTransport) {
+        await existingTransport.handleRequest(req, res, body);
+        return;
+    }
+
+    if (!isInitializeRequest(body)) {
+        logger.warn('Streamable HTTP request without a session');
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (newSessionId) => {
+            logger.info('Streamable HTTP session initialized', { sessionId: newSessionId });
+            transports.set(newSessionId, transport);
+            touchSession(sessions, newSessionId);
+        },
+        enableDnsRebindingProtection: true,
+        allowedHosts: sessions.dnsRebinding.allowedHosts,
+    });
+    transport.onclose = () => {
+        if (transport.sessionId) {
+            logger.info('Streamable HTTP session closed', { sessionId: transport.sessionId });
+            transports.delete(transport.sessionId);
+            clearTimeout(sessions.idleTimers.get(transport.sessionId));
+            sessions.idleTimers.delete(transport.sessionId);
+        }
+    };
+
+    await serverFactory().connect(transport);
+    await transport.handleRequest(req, res, body);
+}
+
+/**
+ * Legacy HTTP+SSE transport: the client opens an SSE stream with GET and
+ * posts its messages to the endpoint announced on that stream, keyed by `sessionId`.
+ */
+async function handleSseRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    pathname: string,
+    serverFactory: () => McpServer,
+    transports: Map<string, SSEServerTransport>,
+    dnsRebinding: DnsRebindingOptions
+) {
+    if (pathname === SSE_ENDPOINT && req.method === 'GET') {
+        const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res, {
+            enableDnsRebindingProtection: true,
+            allowedHosts: dnsRebinding.allowedHosts,
+        });
+        transports.set(transport.sessionId, transport);
+        logger.info('SSE session opened', { sessionId: transport.sessionId });
+        res.on('close', () => {
+            logger.info('SSE session closed', { sessionId: transport.sessionId });
+            transports.delete(transport.sessionId);
+        });
+        await serverFactory().connect(transport);
+        return;
+    }
+
+    if (pathname === SSE_MESSAGES_ENDPOINT && req.method === 'POST') {
+        const sessionId = new URL(req.url ?? '/', 'http://localhost').searchParams.get('sessionId');
+        const transport = sessionId ? transports.get(sessionId) : undefined;
+        if (!transport) {
+            logger.warn('SSE message for unknown session', { sessionId });
+            sendJsonRpcError(res, 400, -32000, 'Bad Request: No transport found for sessionId');
+            return;
+        }
+        await transport.handlePostMessage(req, res);
+        return;
+    }
+
+    res.writeHead(405).end('Method Not Allowed');
+}
+
+/**
+ * Serve the enabled HTTP transports. Requests for other hosts than the server's own, and from
+ * browser pages of other origins, are refused so that web pages cannot reach the server
+ * through DNS rebinding. The SDK transports check the hosts too, but they would refuse
+ * clients that send no Origin header when given the origins, so origins are checked here.
+ */
+export async function configureHttpServer(serverFactory: () => McpServer, options: HttpServerOptions): Promise<Server> {
+    const {
+        port,
+        host,
+        transports: enabledTransports = ['http'],
+        sessionIdleTimeout = DEFAULT_SESSION_IDLE_TIMEOUT,
+    } = options;
+    logger.debug('Configuring HTTP transports for MCP server', { port, host, transports: enabledTransports });
+
+    // the allowed hosts depend on the port actually bound, they are set once the server listens
+    const dnsRebinding: DnsRebindingOptions = { allowedHosts: [], allowedOrigins: [] };
+    const sessions: StreamableHttpSessions = {
+        transports: new Map(),
+        idleTimers: new Map(),
+        idleTimeout: sessionIdleTimeout,
+        dnsRebinding,
+    };
+    const { transports } = sessions;
+    const sseTransports = new Map<string, SSEServerTransport>();
+    const httpServer = createHttpServer(async (req, res) => {
+        const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+        try {
+            const violation = getDnsRebindingViolation(req.headers, dnsRebinding);
+            if (violation) {
+                logger.warn('Refused HTTP request', { reason: violation, pathname });
+                sendJsonRpcError(res, 403, -32000, violation);
+                return;
+            }
+            if (enabledTransports.includes('http') && pathname === MCP_ENDPOINT) {
+                await handleStreamableHttpRequest(req, res, serverFactory, sessions);
+                return;
+            }
+            if (enabledTransports.includes('sse') && (pathname === SSE_ENDPOINT || pathname === SSE_MESSAGES_ENDPOINT)) {
+                await handleSseRequest(req, res, pathname, serverFactory, sseTransports, dnsRebinding);
+                return;
+            }
+            res.writeHead(404).end('Not Found');
+        } catch (error) {
+            logger.error('Failed to handle HTTP request', {
+                error: error instanceof Error ? error.message : String(error),
+                stack: error instanceof Error ? error.stack : undefined
+            });
+            if (!res.headersSent) {
+                sendJsonRpcError(res, 500, -32603, 'Internal server error');
+            }
+        }
+    });
+    httpServer.on('close', () => {
+        sessions.idleTimers.forEach((timer) => clearTimeout(timer));
+        sessions.idleTimers.clear();
+        transports.forEach((transport) => transport.close());
+        transports.clear();
+        sseTransports.forEach((transport) => transport.close());
+        sseTransports.clear();
+    });
+
+    try {
+        await new Promise<void>((resolve, reject) => {
+            httpServer.once('error', reject);
+            httpServer.listen(port, host, () => {
+                httpServer.off('error', reject);
+                dnsRebinding.allowedHosts = getAllowedHosts(host, (httpServer.address() as AddressInfo).port, options.allowedHosts);
+                dnsRebinding.allowedOrigins = getAllowedOrigins(dnsRebinding.allowedHosts, options.allowedOrigins);
+                resolve();
+            });
+        });
+        if (enabledTransports.includes('http')) {
+            logger.info(`MCP server listening for Streamable HTTP on ${MCP_ENDPOINT}`, { port, host });
+        }
+        if (enabledTransports.includes('sse')) {
+            logger.info(`MCP server listening for SSE on ${SSE_ENDPOINT}`, { port, host });
+        }
+        return httpServer;
+    } catch (error) {
+        logger.error('Failed to configure HTTP transports', {
+            error: error instanceof Error ? error.message : String(error),
+            stack: error instanceof Error ? error.stack : undefined
+        });
+        throw error;
+    }
+}
@@ -0,0 +1,62 @@
+/**
+ * vendor extension forcing (true) or skipping (false) the confirmation of an operation
+ */
+export const CONFIRM_OPERATION_EXTENSION = 'x-mcp-confirm';
+
+const MAX_CONFIRMATION_BODY_LENGTH = 2000;
+
+/**
+ * Operations the user has to confirm through an MCP elicitation before the request is sent.
+ * An operation needs confirmation when any of the lists matches it.
+ */
+export interface ConfirmationOptions {
+    methods?: string[];
+    tags?: string[];
+    operationIds?: string[];
+}
+
+export interface ConfirmableOperation {
+    operationId: string;
+    method: string;
+    tags?: string[];
+    extensions?: Record<string, unknown>;
+}
+
+export interface ConfirmableRequest {
+    method: string;
+    url: string;
+    data?: unknown;
+}
+
+export function requiresConfirmation(operation: ConfirmableOperation, options: ConfirmationOptions = {}): boolean {
+    const extension = operation.extensions?.[CONFIRM_OPERATION_EXTENSION];
+    if (typeof extension === 'boolean') {
+        return extension;
+    }
+    const { methods = [], tags = [], operationIds = [] } = options;
+    return methods.some((method) => method.toLowerCase() === operation.method.toLowerCase())
+        || (operation.tags ?? []).some((tag) => tags.includes(tag))
+        || operationIds.includes(operation.operationId);
+}
+
+function formatBody(data: unknown): string {
+    const body = typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+    return body.length > MAX_CONFIRMATION_BODY_LENGTH
+        ? `${body.slice(0, MAX_CONFIRMATION_BODY_LENGTH)}... (${body.length} characters)`
+        : body;
+}
+
+/**
+ * the message shown to the user, with the resolved method, URL and body
+ */
+export function getConfirmationMessage(operationId: string, request: ConfirmableRequest): string {
+    const lines = [
+        `The tool ${operationId} wants to send the following request:`,
+        `${request.method.toUpperCase()} ${request.url}`,
+    ];
+    if (request.data !== undefined && request.data !== null && request.data !== '') {
+        lines.push('', 'Body:', formatBody(request.data));
+    }
+    lines.push('', 'Do you want to send it?');
+    return lines.join('\n');
+}
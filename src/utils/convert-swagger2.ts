@@ -0,0 +1,316 @@
+import { OpenAPIV3 } from "openapi-client-axios";
+import logger from "./logger";
+
+/**
+ * Swagger 2.0 documents are plain parsed JSON/YAML here,
+ * only the parts needed for the conversion are typed
+ */
+type Swagger2Object = Record<string, any>;
+
+const DEFAULT_CONSUMES = ["application/json"];
+const DEFAULT_PRODUCES = ["application/json"];
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch"];
+
+/**
+ * keywords of non-body parameters that belong in the 3.0 parameter schema
+ */
+const PARAMETER_SCHEMA_KEYWORDS = [
+    "type", "format", "items", "collectionFormat", "default", "maximum", "exclusiveMaximum",
+    "minimum", "exclusiveMinimum", "maxLength", "minLength", "pattern", "maxItems", "minItems",
+    "uniqueItems", "enum", "multipleOf",
+];
+
+const REF_PREFIXES: [string, string][] = [
+    ["#/definitions/", "#/components/schemas/"],
+    ["#/responses/", "#/components/responses/"],
+];
+
+export function isSwagger2(definition: unknown): boolean {
+    return typeof definition === "object"
+        && definition !== null
+        && String((definition as Swagger2Object).swagger).startsWith("2");
+}
+
+function isFormParameter(parameter: Swagger2Object) {
+    return parameter.in === "formData";
+}
+
+/**
+ * type: file, x-nullable and string discriminators have 3.0 counterparts,
+ * everything else in a 2.0 schema is already valid in 3.0
+ */
+function convertSchema(schema: any): any {
+    if (typeof schema !== "object" || schema === null) {
+        return schema;
+    }
+    if (Array.isArray(schema)) {
+        return schema.map(convertSchema);
+    }
+
+    const converted: Record<string, any> = {};
+    for (const [key, value] of Object.entries(schema)) {
+        if (key === "x-nullable") {
+            converted.nullable = value;
+        } else if (key === "discriminator" && typeof value === "string") {
+            converted.discriminator = { propertyName: value };
+        } else if (key === "type" && value === "file") {
+            converted.type = "string";
+            converted.format = "binary";
+        } else {
+            converted[key] = convertSchema(value);
+        }
+    }
+    return converted;
+}
+
+/**
+ * collectionFormat becomes style/explode, multi is the only exploded one
+ */
+function getParameterStyle(parameter: Swagger2Object): Pick<OpenAPIV3.ParameterObject, "style" | "explode"> {
+    switch (parameter.collectionFormat) {
+        case "multi":
+            return { style: "form", explode: true };
+        case "ssv":
+            return { style: "spaceDelimited", explode: false };
+        case "pipes":
+            return { style: "pipeDelimited", explode: false };
+        case "csv":
+            return parameter.in === "query" || parameter.in === "cookie"
+                ? { style: "form", explode: false }
+                : { style: "simple", explode: false };
+        default:
+            return {};
+    }
+}
+
+function convertParameter(parameter: Swagger2Object): OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject {
+    if (parameter.$ref) {
+        return { $ref: String(parameter.$ref).replace("#/parameters/", "#/components/parameters/") };
+    }
+
+    const schema: Record<string, any> = {};
+    const converted: Record<string, any> = {};
+    for (const [key, value] of Object.entries(parameter)) {
+        if (key === "collectionFormat") {
+            continue;
+        }
+        if (PARAMETER_SCHEMA_KEYWORDS.includes(key)) {
+            schema[key] = value;
+        } else if (key === "x-nullable") {
+            schema.nullable = value;
+        } else {
+            converted[key] = value;
+        }
+    }
+    return {
+        ...converted,
+        ...getParameterStyle(parameter),
+        schema: convertSchema(schema),
+    } as OpenAPIV3.ParameterObject;
+}
+
+function getFormContentType(formParameters: Swagger2Object[], consumes: string[]) {
+    const hasFile = formParameters.some((parameter) => parameter.type === "file");
+    if (hasFile || consumes.includes("multipart/form-data")) {
+        return "multipart/form-data";
+    }
+    return "application/x-www-form-urlencoded";
+}
+
+/**
+ * body and formData parameters become the operation requestBody
+ */
+function convertRequestBody(parameters: Swagger2Object[], consumes: string[]): OpenAPIV3.RequestBodyObject | undefined {
+    const bodyParameter = parameters.find((parameter) => parameter.in === "body");
+    if (bodyParameter) {
+        const schema = convertSchema(bodyParameter.schema ?? {});
+        return {
+            description: bodyParameter.description,
+            required: bodyParameter.required ?? false,
+            content: Object.fromEntries(consumes.map((contentType) => [contentType, { schema }])),
+        };
+    }
+
+    const formParameters = parameters.filter(isFormParameter);
+    if (formParameters.length === 0) {
+        return undefined;
+    }
+    const properties = Object.fromEntries(formParameters.map((parameter) => {
+        const { schema } = convertParameter(parameter) as OpenAPIV3.ParameterObject;
+        return [parameter.name, { ...schema, description: parameter.description }];
+    }));
+    const required = formParameters.filter((parameter) => parameter.required).map((parameter) => parameter.name);
+    return {
+        required: required.length > 0,
+        content: {
+            [getFormContentType(formParameters, consumes)]: {
+                schema: { type: "object", properties, ...(required.length > 0 ? { required } : {}) },
+            },
+        },
+    };
+}
+
+function convertResponse(response: Swagger2Object, produces: string[]): OpenAPIV3.ResponseObject | OpenAPIV3.ReferenceObject {
+    if (response.$ref) {
+        return { $ref: response.$ref };
+    }
+    const { schema, headers, examples, ...rest } = response;
+    const converted: Record<string, any> = { ...rest, description: response.description ?? "" };
+    if (schema) {
+        const convertedSchema = convertSchema(schema);
+        converted.content = Object.fromEntries(produces.map((contentType) => [contentType, {
+            schema: convertedSchema,
+            ...(examples?.[contentType] !== undefined ? { example: examples[contentType] } : {}),
+        }]));
+    }
+    if (headers) {
+        converted.headers = Object.fromEntries(Object.entries(headers as Record<string, Swagger2Object>).map(([name, header]) => {
+            const { description, ...headerSchema } = header;
+            return [name, { description, schema: convertSchema(headerSchema) }];
+        }));
+    }
+    return converted as OpenAPIV3.ResponseObject;
+}
+
+function convertOperation(
+    operation: Swagger2Object,
+    pathParameters: Swagger2Object[],
+    document: Swagger2Object
+): OpenAPIV3.OperationObject {
+    const { parameters = [], consumes, produces, schemes, responses = {}, ...rest } = operation;
+    const operationConsumes: string[] = consumes ?? document.consumes ?? DEFAULT_CONSUMES;
+    const operationProduces: string[] = produces ?? document.produces ?? DEFAULT_PRODUCES;
+
+    // resolve global parameters here, a body/formData ref has to end up in the requestBody
+    const resolvedParameters = [...pathParameters, ...parameters].map((parameter: Swagger2Object) => {
+        const globalName = typeof parameter.$ref === "string" ? parameter.$ref.replace("#/parameters/", "") : undefined;
+        const globalParameter = globalName ? document.parameters?.[globalName] : undefined;
+        return globalParameter && (globalParameter.in === "body" || isFormParameter(globalParameter))
+            ? globalParameter
+            : parameter;
+    });
+    // operation parameters override path parameters with the same name and location
+    const uniqueParameters = resolvedParameters.filter((parameter, index) =>
+        parameter.$ref || !resolvedParameters.slice(index + 1).some((other) =>
+            !other.$ref && other.name === parameter.name && other.in === parameter.in
+        )
+    );
+
+    const requestBody = convertRequestBody(uniqueParameters, operationConsumes);
+    const converted: OpenAPIV3.OperationObject = {
+        ...rest,
+        parameters: uniqueParameters
+            .filter((parameter) => parameter.in !== "body" && !isFormParameter(parameter))
+            .map(convertParameter),
+        responses: Object.fromEntries(Object.entries(responses as Record<string, Swagger2Object>)
+            .map(([status, response]) => [status, convertResponse(response, operationProduces)])),
+    };
+    if (requestBody) {
+        converted.requestBody = requestBody;
+    }
+    // without a host there is no absolute URL to switch schemes on
+    if (schemes?.length && document.host) {
+        const servers = convertServers({ ...document, schemes });
+        const documentUrls = convertServers(document).map((server) => server.url);
+        if (servers.map((server) => server.url).join() !== documentUrls.join()) {
+            converted.servers = servers;
+        }
+    }
+    return converted;
+}
+
+/**
+ * the base URL comes from schemes, host and basePath,
+ * without a host the servers are relative to where the spec is served from
+ */
+function convertServers(document: Swagger2Object): OpenAPIV3.ServerObject[] {
+    const basePath = document.basePath ?? "";
+    if (!document.host) {
+        return [{ url: basePath || "/" }];
+    }
+    const schemes: string[] = document.schemes?.length ? document.schemes : ["https"];
+    return schemes.map((scheme) => ({ url: `${scheme}://${document.host}${basePath}` }));
+}
+
+function convertSecuritySchemes(securityDefinitions: Record<string, Swagger2Object> = {}) {
+    return Object.fromEntries(Object.entries(securityDefinitions).map(([name, definition]) => {
+        const { type, flow, authorizationUrl, tokenUrl, scopes = {}, ...rest } = definition;
+        if (type === "basic") {
+            return [name, { ...rest, type: "http", scheme: "basic" }];
+        }
+        if (type === "oauth2") {
+            const flowName = {
+                implicit: "implicit",
+                password: "password",
+                application: "clientCredentials",
+                accessCode: "authorizationCode",
+            }[flow as string] ?? flow;
+            return [name, { ...rest, type, flows: { [flowName]: { authorizationUrl, tokenUrl, scopes } } }];
+        }
+        return [name, definition];
+    }));
+}
+
+/**
+ * $refs keep their target name, only the location moves under components
+ */
+function rewriteRefs(node: any): any {
+    if (typeof node !== "object" || node === null) {
+        return node;
+    }
+    if (Array.isArray(node)) {
+        return node.map(rewriteRefs);
+    }
+    return Object.fromEntries(Object.entries(node).map(([key, value]) => {
+        if (key !== "$ref" || typeof value !== "string") {
+            return [key, rewriteRefs(value)];
+        }
+        const prefix = REF_PREFIXES.find(([from]) => value.startsWith(from));
+        return [key, prefix ? value.replace(prefix[0], prefix[1]) : value];
+    }));
+}
+
+export function convertSwagger2ToOpenApi3(document: Swagger2Object): OpenAPIV3.Document {
+    logger.debug("Converting Swagger 2.0 definition to OpenAPI 3.0", { title: document.info?.title });
+
+    const paths: OpenAPIV3.PathsObject = {};
+    for (const [path, pathItem] of Object.entries((document.paths ?? {}) as Record<string, Swagger2Object>)) {
+        const { parameters: pathParameters = [], ...pathRest } = pathItem;
+        const convertedPath: Record<string, any> = {};
+        for (const [key, value] of Object.entries(pathRest)) {
+            convertedPath[key] = HTTP_METHODS.includes(key)
+                ? convertOperation(value, pathParameters, document)
+                : value;
+        }
+        paths[path] = convertedPath;
+    }
+
+    const componentParameters = Object.fromEntries(Object.entries((document.parameters ?? {}) as Record<string, Swagger2Object>)
+        .filter(([, parameter]) => parameter.in !== "body" && !isFormParameter(parameter))
+        .map(([name, parameter]) => [name, convertParameter(parameter)]));
+    const globalProduces: string[] = document.produces ?? DEFAULT_PRODUCES;
+
+    const converted = {
+        openapi: "3.0.3",
+        info: document.info,
+        servers: convertServers(document),
+        paths,
+        components: {
+            schemas: convertSchema(document.definitions ?? {}),
+            parameters: componentParameters,
+            responses: Object.fromEntries(Object.entries((document.responses ?? {}) as Record<string, Swagger2Object>)
+                .map(([name, response]) => [name, convertResponse(response, globalProduces)])),
+            securitySchemes: convertSecuritySchemes(document.securityDefinitions),
+        },
+        ...(document.security ? { security: document.security } : {}),
+        ...(document.tags ? { tags: document.tags } : {}),
+        ...(document.externalDocs ? { externalDocs: document.externalDocs } : {}),
+    };
+
+    const result = rewriteRefs(converted) as OpenAPIV3.Document;
+    logger.info("Converted Swagger 2.0 definition to OpenAPI 3.0", {
+        pathCount: Object.keys(paths).length,
+        servers: result.servers?.map((server) => server.url),
+    });
+    return result;
+}
@@ -0,0 +1,73 @@
+import { IncomingHttpHeaders } from "node:http";
+
+/**
+ * names a local client may use to reach the server, whatever host it is bound to
+ */
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * binding to these accepts connections on every interface, they are no Host header value
+ */
+const WILDCARD_HOSTS = ['', '0.0.0.0', '::', '[::]'];
+
+export interface DnsRebindingOptions {
+    /**
+     * Host header values the server answers to
+     */
+    allowedHosts: string[];
+    /**
+     * Origin header values of the browser pages that may call the server
+     */
+    allowedOrigins: string[];
+}
+
+function formatHost(host: string) {
+    return host.includes(':') && !host.startsWith('[') ? `[${host}]` : host;
+}
+
+function hasPort(host: string) {
+    return /:\d+$/.test(host) && (!host.includes('[') || host.includes(']:'));
+}
+
+/**
+ * The Host header values of the bound host, the loopback names and the extra hosts.
+ * Hosts without a port are accepted on the port the server listens on.
+ */
+export function getAllowedHosts(host: string | undefined, port: number, extraHosts: string[] = []): string[] {
+    const bound = WILDCARD_HOSTS.includes(host ?? '') ? [] : [formatHost(host as string)];
+    const hosts = [...LOOPBACK_HOSTS, ...bound, ...extraHosts].flatMap((name) => {
+        const lowerCase = name.toLowerCase();
+        if (hasPort(lowerCase)) {
+            return [lowerCase];
+        }
+        // browsers and fetch leave out the default port
+        return port === 80 ? [`${lowerCase}:${port}`, lowerCase] : [`${lowerCase}:${port}`];
+    });
+    return [...new Set(hosts)];
+}
+
+/**
+ * the origins of pages served from the allowed hosts, and the extra origins
+ */
+export function getAllowedOrigins(allowedHosts: string[], extraOrigins: string[] = []): string[] {
+    const origins = [
+        ...allowedHosts.map((host) => `http://${host}`),
+        ...extraOrigins.map((origin) => origin.toLowerCase().replace(/\/+$/, '')),
+    ];
+    return [...new Set(origins)];
+}
+
+/**
+ * Why a request is refused as a possible DNS rebinding attack, undefined when it is accepted.
+ * Requests without an Origin header come from clients other than browsers and are accepted.
+ */
+export function getDnsRebindingViolation(headers: IncomingHttpHeaders, options: DnsRebindingOptions): string | undefined {
+    const { host, origin } = headers;
+    if (!host || !options.allowedHosts.includes(host.toLowerCase())) {
+        return `Invalid Host header: ${host}`;
+    }
+    if (origin && !options.allowedOrigins.includes(origin.toLowerCase())) {
+        return `Invalid Origin header: ${origin}`;
+    }
+    return undefined;
+}
@@ -0,0 +1,170 @@
+import { z } from "zod";
+
+/**
+ * per-call argument asking for the resolved request instead of sending it
+ */
+export const DRY_RUN_ARGUMENT = '_dryRun';
+
+/**
+ * key of the resolved request in the structured content of dry runs
+ */
+export const DRY_RUN_OUTPUT_KEY = 'request';
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * header and query parameter names whose values are never shown,
+ * `auth` covers X-Auth-Key and the like, but not `author`
+ */
+const SENSITIVE_NAME_PATTERN = /(authorization|auth(?!or)|cookie|token|secret|password|passwd|api[-_]?key|apikey|access[-_]?key|subscription[-_]?key|session|signature|credential|^key$|^sig$)/i;
+
+export interface DryRunRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+}
+
+interface ResolvableRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    data?: unknown;
+    /**
+     * values never shown, whatever the name of the header or query parameter they are sent in
+     */
+    secrets?: string[];
+}
+
+export const dryRunRequestSchema = z.object({
+    method: z.string(),
+    url: z.string(),
+    headers: z.record(z.string()),
+    body: z.string().optional(),
+});
+
+export function isSensitiveName(name: string) {
+    return SENSITIVE_NAME_PATTERN.test(name);
+}
+
+function isSensitive(name: string, value: string, secrets: string[]) {
+    return isSensitiveName(name) || secrets.includes(value);
+}
+
+function redactHeaders(headers: Record<string, string>, secrets: string[]): Record<string, string> {
+    return Object.fromEntries(Object.entries(headers)
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([name, value]) => [name, isSensitive(name, String(value), secrets) ? REDACTED : String(value)]));
+}
+
+function decodeQueryComponent(component: string) {
+    try {
+        return decodeURIComponent(component.replace(/\+/g, ' '));
+    }
+    catch {
+        return component;
+    }
+}
+
+/**
+ * redact sensitive query parameter values, the other parameters keep their serialization
+ */
+function redactUrl(url: string, secrets: string[]): string {
+    const queryStart = url.indexOf('?');
+    if (queryStart === -1) {
+        return url;
+    }
+    const query = url.slice(queryStart + 1)
+        .split('&')
+        .map((parameter) => {
+            const [name] = parameter.split('=', 1);
+            const value = parameter.slice(name.length + 1);
+            return isSensitive(decodeQueryComponent(name), decodeQueryComponent(value), secrets) ? `${name}=${REDACTED}` : parameter;
+        })
+        .join('&');
+    return `${url.slice(0, queryStart)}?${query}`;
+}
+
+function getHeader(headers: Record<string, string>, name: string): string | undefined {
+    return Object.entries(headers).find(([header]) => header.toLowerCase() === name)?.[1];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Buffer.isBuffer(value) && !(value instanceof URLSearchParams);
+}
+
+/**
+ * the body as it goes over the wire, objects are serialized the way axios does it
+ */
+function serializeBody(data: unknown, contentType = ''): string | undefined {
+    if (data === undefined || data === null) {
+        return undefined;
+    }
+    if (typeof data === 'string') {
+        return data;
+    }
+    if (Buffer.isBuffer(data)) {
+        return `<${data.length} bytes of binary data>`;
+    }
+    if (data instanceof URLSearchParams) {
+        return data.toString();
+    }
+    if (contentType.includes('application/x-www-form-urlencoded') && isPlainObject(data)) {
+        return new URLSearchParams(Object.entries(data).map(([name, value]) => [name, String(value)])).toString();
+    }
+    return JSON.stringify(data);
+}
+
+/**
+ * The request as it would be sent, with secrets in headers and query parameters redacted:
+ * the values of sensitive names and the configured secrets.
+ * Object bodies without a content type are sent as JSON by axios, so the header is added.
+ */
+export function getDryRunRequest(request: ResolvableRequest): DryRunRequest {
+    const secrets = (request.secrets ?? []).filter(Boolean);
+    const headers = redactHeaders(request.headers, secrets);
+    if (isPlainObject(request.data) && !getHeader(headers, 'content-type')) {
+        headers['Content-Type'] = 'application/json';
+    }
+    const body = serializeBody(request.data, getHeader(headers, 'content-type'));
+    return {
+        method: request.method.toUpperCase(),
+        url: redactUrl(request.url, secrets),
+        headers,
+        ...(body !== undefined ? { body } : {}),
+    };
+}
+
+function shellQuote(value: string) {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * an equivalent curl command, multipart bodies become form fields
+ */
+export function toCurlCommand(request: DryRunRequest, data?: unknown): string {
+    const contentType = getHeader(request.headers, 'content-type') ?? '';
+    const isMultipart = contentType.includes('multipart/form-data') && isPlainObject(data);
+    const parts = ['curl', '-X', request.method];
+    // brackets and braces in serialized query parameters are not curl URL globs
+    if (/[[\]{}]/.test(request.url)) {
+        parts.push('--globoff');
+    }
+    parts.push(shellQuote(request.url));
+    for (const [name, value] of Object.entries(request.headers)) {
+        // curl sets the multipart content type itself, with the boundary
+        if (isMultipart && name.toLowerCase() === 'content-type') {
+            continue;
+        }
+        parts.push('-H', shellQuote(`${name}: ${value}`));
+    }
+    if (isMultipart) {
+        for (const [name, value] of Object.entries(data)) {
+            parts.push('-F', shellQuote(`${name}=${typeof value === 'string' ? value : JSON.stringify(value)}`));
+        }
+    }
+    else if (request.body !== undefined) {
+        parts.push('--data-raw', shellQuote(request.body));
+    }
+    return parts.join(' ');
+}
@@ -0,0 +1,131 @@
+import { STATUS_CODES } from "node:http";
+import logger from "./logger";
+
+const MAX_SUMMARY_LENGTH = 500;
+const PROBLEM_JSON_PATTERN = /^application\/problem\+json\b/i;
+
+function truncate(text: string, maxLength = MAX_SUMMARY_LENGTH) {
+    return text.length > maxLength ? `${text.slice(0, maxLength - 3)}...` : text;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function firstString(...values: unknown[]): string | undefined {
+    return values.find((value): value is string => typeof value === "string" && value.trim() !== "")?.trim();
+}
+
+/**
+ * error bodies are not always parsed by axios (e.g. a JSON body sent as text/plain)
+ */
+function parseBody(data: unknown): unknown {
+    const text = Buffer.isBuffer(data) ? data.toString("utf8") : data;
+    if (typeof text !== "string") {
+        return text;
+    }
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * field level errors in the shapes used by common frameworks:
+ * RFC 7807 `invalid-params` ({name, reason}), JSON:API ({source: {pointer}, detail}),
+ * FastAPI ({loc, msg}), Google ({field, description}) and Rails ({field: [messages]})
+ */
+function describeFieldErrors(errors: unknown): string | undefined {
+    if (isRecord(errors)) {
+        const messages = Object.entries(errors).map(([field, fieldMessages]) =>
+            `${field}: ${[fieldMessages].flat().filter((message) => typeof message === "string").join(", ")}`
+        );
+        return messages.length > 0 ? messages.join("; ") : undefined;
+    }
+    if (!Array.isArray(errors)) {
+        return undefined;
+    }
+
+    const messages = errors.map((error) => {
+        if (!isRecord(error)) {
+            return firstString(error);
+        }
+        const field = firstString(
+            error.name, error.field, error.path, error.pointer, error.source?.pointer, error.source?.parameter,
+            Array.isArray(error.loc) ? error.loc.join(".") : undefined
+        );
+        const message = firstString(error.reason, error.message, error.msg, error.detail, error.title, error.description);
+        if (!message) {
+            return field;
+        }
+        return field ? `${field}: ${message}` : message;
+    }).filter(Boolean);
+    return messages.length > 0 ? messages.join("; ") : undefined;
+}
+
+function withFieldErrors(message: string | undefined, fieldErrors: string | undefined) {
+    if (message && fieldErrors) {
+        return `${message} (${fieldErrors})`;
+    }
+    return message ?? fieldErrors;
+}
+
+/**
+ * RFC 7807 problem details: title and detail, plus the invalid-params extension
+ */
+function describeProblemDetails(problem: Record<string, any>): string | undefined {
+    const title = firstString(problem.title);
+    const detail = firstString(problem.detail);
+    const message = title && detail && title !== detail ? `${title}: ${detail}` : title ?? detail;
+    return withFieldErrors(message, describeFieldErrors(problem["invalid-params"] ?? problem.invalidParams ?? problem.errors));
+}
+
+/**
+ * the error envelopes most APIs use: `{error: "..."}`, `{error: {message, details}}`,
+ * `{message, errors}`, `{detail: [...]}` and OAuth's `{error, error_description}`
+ */
+function describeErrorEnvelope(body: unknown): string | undefined {
+    if (typeof body === "string") {
+        return firstString(body);
+    }
+    if (!isRecord(body)) {
+        return undefined;
+    }
+    if (isRecord(body.error)) {
+        return describeErrorEnvelope(body.error);
+    }
+
+    const message = firstString(body.error_description, body.message, body.error, body.detail, body.title, body.description);
+    const googleFieldViolations = Array.isArray(body.details)
+        ? body.details.flatMap((detail: any) => detail?.fieldViolations ?? [])
+        : [];
+    const fieldErrors = describeFieldErrors(body.errors)
+        ?? describeFieldErrors(Array.isArray(body.detail) ? body.detail : undefined)
+        ?? describeFieldErrors(googleFieldViolations.length > 0 ? googleFieldViolations : undefined);
+    return withFieldErrors(message, fieldErrors);
+}
+
+/**
+ * A short, readable summary of an error response, e.g.
+ * `HTTP 422 Unprocessable Entity: Validation failed (name: is required)`.
+ * The raw body is left to the caller, this is only meant to tell the model what went wrong.
+ */
+export function summarizeErrorResponse(statusCode: number, contentType: string | undefined, data: unknown): string {
+    const statusText = STATUS_CODES[statusCode];
+    const status = statusText ? `HTTP ${statusCode} ${statusText}` : `HTTP ${statusCode}`;
+    const body = parseBody(data);
+
+    const isProblem = PROBLEM_JSON_PATTERN.test(contentType ?? "")
+        || (isRecord(body) && typeof body.type === "string" && typeof body.title === "string");
+    let details = isProblem && isRecord(body) ? describeProblemDetails(body) : describeErrorEnvelope(body);
+    // problem titles often just repeat the status text
+    if (statusText && details?.startsWith(`${statusText}: `)) {
+        details = details.slice(statusText.length + 2);
+    } else if (details === statusText) {
+        details = undefined;
+    }
+    logger.debug("Summarized error response", { statusCode, isProblem, hasDetails: Boolean(details) });
+
+    return truncate(details ? `${status}: ${details}` : status);
+}
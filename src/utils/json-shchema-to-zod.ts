@@ -1,70 +1,499 @@
 import { OpenAPIV3 } from "openapi-client-axios";
 import { z } from "zod";
+import logger from "./logger";
+
+export const DEFAULT_MAX_SCHEMA_DEPTH = 10;
+
+export interface SchemaConversionOptions {
+    /**
+     * nesting depth beyond which schemas are no longer converted,
+     * but accepted as permissive objects/arrays
+     */
+    maxDepth?: number;
+    /**
+     * objects without additionalProperties keep unknown properties instead of stripping them,
+     * for response schemas that describe what an API returns rather than what it accepts
+     */
+    passthroughObjects?: boolean;
+    /**
+     * the dereferenced `components.schemas` of the document, discriminator mappings point at them
+     */
+    schemas?: Record<string, OpenAPIV3.SchemaObject>;
+}
+
+/**
+ * OpenAPI 3.1 (JSON Schema 2020-12) keywords missing from the 3.0 schema typings
+ */
+interface JsonSchema2020Keywords {
+    type?: string | string[];
+    const?: unknown;
+    prefixItems?: OpenAPIV3.SchemaObject[];
+    items?: OpenAPIV3.SchemaObject | boolean;
+    exclusiveMinimum?: boolean | number;
+    exclusiveMaximum?: boolean | number;
+}
+
+function getJsonSchema2020Keywords(schemaObject: OpenAPIV3.SchemaObject): JsonSchema2020Keywords {
+    return schemaObject as unknown as JsonSchema2020Keywords;
+}
+
+interface ConversionContext {
+    maxDepth: number;
+    passthroughObjects: boolean;
+    schemas: Record<string, OpenAPIV3.SchemaObject>;
+    depth: number;
+    /**
+     * schemas currently being converted, the definition is dereferenced so recursive
+     * schemas show up as the same object again further down the tree
+     */
+    inProgress: Map<OpenAPIV3.SchemaObject, { zodSchema?: z.ZodTypeAny }>;
+}
+
+/**
+ * Optional, unless the schema has a default: a default already accepts undefined,
+ * and wrapped in `.optional()` it would never be applied.
+ */
+export function optionalSchema(zodSchema: z.ZodTypeAny): z.ZodTypeAny {
+    return zodSchema instanceof z.ZodDefault ? zodSchema : zodSchema.optional();
+}
+
+/**
+ * Patterns are compiled as unicode regular expressions first, for `\p{...}` classes,
+ * then without the flag, which accepts the identity escapes like `\-` common in specs.
+ */
+function compilePattern(pattern: string): RegExp | undefined {
+    for (const flags of ["u", ""]) {
+        try {
+            return new RegExp(pattern, flags);
+        } catch {
+            // try the next flags
+        }
+    }
+    logger.warn('Pattern not supported by JavaScript, it is not validated', { pattern });
+    return undefined;
+}
 
 function convertPropertiesToZodShape(
     properties: Record<string, OpenAPIV3.SchemaObject>,
-    required: string[]
+    required: string[],
+    context: ConversionContext
 ): Record<string, z.ZodTypeAny> {
     return Object.entries(properties).reduce((acc, [key, value]) => {
-        let field = openAPISchemaToZod(value);
-        if (!required.includes(key)) {
-            field = field.optional();
-        }
-        acc[key] = field;
+        const field = convertSchema(value, context);
+        acc[key] = required.includes(key) ? field : optionalSchema(field);
         return acc;
     }, {} as Record<string, z.ZodTypeAny>);
 }
 
-export function openAPISchemaToZod(schemaObject: OpenAPIV3.SchemaObject): z.ZodTypeAny {
-    const {
-        description = "",
-        title = "",
-        type = "string",
-        properties = {},
-        required = [],
-        minimum,
-        maximum,
-        enum: enumValues,
-        format,
-    } = schemaObject;
+/**
+ * - `additionalProperties: false` rejects unknown keys
+ * - `additionalProperties: true` (or `{}`) and objects without properties keep unknown keys
+ * - an `additionalProperties` schema validates the values of unknown keys (a record when there are no properties)
+ * - otherwise unknown keys are stripped
+ */
+function objectSchemaToZod(
+    schemaObject: OpenAPIV3.SchemaObject,
+    schemaDescription: string,
+    context: ConversionContext
+): z.ZodTypeAny {
+    const { properties = {}, required = [], additionalProperties } = schemaObject;
+    const hasProperties = Object.keys(properties).length > 0;
+    const valueSchema = typeof additionalProperties === "object" && Object.keys(additionalProperties).length > 0
+        ? convertSchema(additionalProperties as OpenAPIV3.SchemaObject, context)
+        : undefined;
+
+    if (!hasProperties && valueSchema) {
+        return z.record(z.string(), valueSchema).describe(schemaDescription);
+    }
+
+    const shape = convertPropertiesToZodShape(properties as Record<string, OpenAPIV3.SchemaObject>, required, context);
+    const objectSchema = z.object(shape);
+    if (valueSchema) {
+        return objectSchema.catchall(valueSchema).describe(schemaDescription);
+    }
+    if (additionalProperties === false) {
+        return objectSchema.strict().describe(schemaDescription);
+    }
+    if (additionalProperties !== undefined || !hasProperties || context.passthroughObjects) {
+        return objectSchema.passthrough().describe(schemaDescription);
+    }
+    return objectSchema.describe(schemaDescription);
+}
+
+/**
+ * when no type is given, infer it from the keywords that are present
+ */
+function inferSchemaType(schemaObject: OpenAPIV3.SchemaObject): string | undefined {
+    const { type, prefixItems } = getJsonSchema2020Keywords(schemaObject);
+    if (Array.isArray(type)) {
+        return type.find((candidate) => candidate !== "null") ?? "null";
+    }
+    if (type) {
+        return type;
+    }
+    if (schemaObject.properties || schemaObject.additionalProperties) {
+        return "object";
+    }
+    if (("items" in schemaObject && schemaObject.items) || prefixItems) {
+        return "array";
+    }
+    return undefined;
+}
+
+/**
+ * items are converted recursively, a missing items schema allows any item
+ */
+function arraySchemaToZod(
+    schemaObject: OpenAPIV3.ArraySchemaObject,
+    schemaDescription: string,
+    context: ConversionContext
+): z.ZodTypeAny {
+    const { minItems, maxItems, uniqueItems } = schemaObject;
+    const { items, prefixItems } = getJsonSchema2020Keywords(schemaObject);
+    const itemSchema = typeof items === "object" ? convertSchema(items, context) : z.any();
+
+    if (prefixItems) {
+        // positional items, followed by `items` for the rest unless `items: false` closes the tuple
+        const tuple = z.tuple(prefixItems.map((prefixItem) => convertSchema(prefixItem, context)) as [z.ZodTypeAny, ...z.ZodTypeAny[]]);
+        return (items === false ? tuple : tuple.rest(itemSchema)).describe(schemaDescription);
+    }
+
+    let arraySchema = z.array(itemSchema);
+    if (minItems !== undefined) {
+        arraySchema = arraySchema.min(minItems);
+    }
+    if (maxItems !== undefined) {
+        arraySchema = arraySchema.max(maxItems);
+    }
+    if (!uniqueItems) {
+        return arraySchema.describe(schemaDescription);
+    }
+    // items are compared by value, so objects with the same content count as duplicates
+    return arraySchema
+        .refine((values) => new Set(values.map((value) => JSON.stringify(value))).size === values.length, {
+            message: "Array items must be unique",
+        })
+        .describe(schemaDescription);
+}
+
+/**
+ * allOf members that are all objects are merged into a single object,
+ * anything else becomes an intersection
+ */
+function allOfToZod(schemas: OpenAPIV3.SchemaObject[], context: ConversionContext): z.ZodTypeAny {
+    const members = schemas.map((schema) => convertSchema(schema, context));
+    if (members.length === 1) {
+        return members[0];
+    }
+    if (members.every((member) => member instanceof z.ZodObject)) {
+        return (members as z.AnyZodObject[]).reduce((acc, member) => acc.merge(member));
+    }
+    return members.reduce((acc, member) => z.intersection(acc, member));
+}
+
+/**
+ * whether a mapping ref (`#/components/schemas/Cat` or just `Cat`) points at the option,
+ * the definition is dereferenced so the option is the very component schema object
+ */
+function isMappedOption(ref: string, option: OpenAPIV3.SchemaObject, schemas: Record<string, OpenAPIV3.SchemaObject>) {
+    const name = ref.split('/').pop() ?? ref;
+    return schemas[name] === option || name === option.title;
+}
+
+/**
+ * the values a oneOf/anyOf option can have for the discriminator property:
+ * an enum on the property itself, or the mapping entries pointing at the option
+ */
+function getDiscriminatorValues(
+    option: OpenAPIV3.SchemaObject,
+    discriminator: OpenAPIV3.DiscriminatorObject,
+    schemas: Record<string, OpenAPIV3.SchemaObject>
+): string[] {
+    const { propertyName, mapping = {} } = discriminator;
+    const property = option.properties?.[propertyName] as OpenAPIV3.SchemaObject | undefined;
+    if (property?.enum?.length) {
+        return property.enum.map(String);
+    }
+    if (Object.keys(mapping).length > 0) {
+        return Object.entries(mapping)
+            .filter(([, ref]) => isMappedOption(ref, option, schemas))
+            .map(([value]) => value);
+    }
+    // without a mapping, the schema name itself is the discriminator value
+    const name = Object.entries(schemas).find(([, schema]) => schema === option)?.[0] ?? option.title;
+    return name ? [name] : [];
+}
+
+function discriminatedUnionToZod(
+    options: OpenAPIV3.SchemaObject[],
+    discriminator: OpenAPIV3.DiscriminatorObject,
+    context: ConversionContext
+): z.ZodTypeAny | undefined {
+    const { propertyName } = discriminator;
+    const variants: z.AnyZodObject[] = [];
+    const seenValues = new Set<string>();
+    for (const option of options) {
+        const values = getDiscriminatorValues(option, discriminator, context.schemas);
+        const variant = convertSchema(option, context);
+        // anyOf and overlapping enums may share values, zod needs each value to pick a single option
+        if (values.length === 0 || values.some((value) => seenValues.has(value)) || !(variant instanceof z.ZodObject)) {
+            return undefined;
+        }
+        values.forEach((value) => seenValues.add(value));
+        const discriminatorSchema = values.length === 1
+            ? z.literal(values[0])
+            : z.enum(values as [string, ...string[]]);
+        variants.push(variant.extend({ [propertyName]: discriminatorSchema }));
+    }
+    return z.discriminatedUnion(
+        propertyName,
+        variants as [z.ZodDiscriminatedUnionOption<string>, ...z.ZodDiscriminatedUnionOption<string>[]]
+    );
+}
+
+function unionToZod(
+    options: OpenAPIV3.SchemaObject[],
+    context: ConversionContext,
+    discriminator?: OpenAPIV3.DiscriminatorObject
+): z.ZodTypeAny {
+    if (options.length === 1) {
+        return convertSchema(options[0], context);
+    }
+    const discriminatedUnion = discriminator && discriminatedUnionToZod(options, discriminator, context);
+    if (discriminatedUnion) {
+        return discriminatedUnion;
+    }
+    const members = options.map((option) => convertSchema(option, context));
+    return z.union(members as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+/**
+ * handles allOf, oneOf, anyOf and not,
+ * returns undefined when the schema has no composition keywords
+ */
+function compositionToZod(schemaObject: OpenAPIV3.SchemaObject, context: ConversionContext): z.ZodTypeAny | undefined {
+    const { allOf, oneOf, anyOf, not: notSchema, discriminator, ...baseSchema } = schemaObject;
+    const schemaDescription = schemaObject.description || schemaObject.title || "";
+
+    if (notSchema) {
+        const excluded = convertSchema(notSchema as OpenAPIV3.SchemaObject, context);
+        return schemaToZod({ ...schemaObject, not: undefined }, context)
+            .refine((value) => !excluded.safeParse(value).success, {
+                message: "Value matches a schema it must not match",
+            })
+            .describe(schemaDescription);
+    }
+
+    if (allOf?.length) {
+        // keywords next to allOf (e.g. extra properties) act as one more member
+        const members = allOf as OpenAPIV3.SchemaObject[];
+        const hasBaseMember = Boolean(inferSchemaType(baseSchema));
+        return allOfToZod(hasBaseMember ? [...members, baseSchema] : members, context).describe(schemaDescription);
+    }
+
+    const options = (oneOf ?? anyOf) as OpenAPIV3.SchemaObject[] | undefined;
+    if (options?.length) {
+        return unionToZod(options, context, discriminator).describe(schemaDescription);
+    }
+
+    return undefined;
+}
+
+/**
+ * string formats validated locally, unknown formats are left unchecked
+ */
+const STRING_FORMATS: Record<string, (schema: z.ZodString) => z.ZodString> = {
+    "email": (schema) => schema.email(),
+    "uuid": (schema) => schema.uuid(),
+    "uri": (schema) => schema.url(),
+    "url": (schema) => schema.url(),
+    "date": (schema) => schema.date(),
+    // date-time stays a string so it is sent to the API exactly as given
+    "date-time": (schema) => schema.datetime({ offset: true }),
+    "ipv4": (schema) => schema.ip({ version: "v4" }),
+    "ipv6": (schema) => schema.ip({ version: "v6" }),
+    "byte": (schema) => schema.base64(),
+};
+
+function stringSchemaToZod(schemaObject: OpenAPIV3.SchemaObject, schemaDescription: string): z.ZodTypeAny {
+    const { enum: enumValues, format, pattern, minLength, maxLength } = schemaObject;
+    if (enumValues) {
+        return z.enum(enumValues as unknown as readonly [string]).describe(schemaDescription);
+    }
+
+    let strSchema = z.string();
+    if (minLength !== undefined) {
+        strSchema = strSchema.min(minLength);
+    }
+    if (maxLength !== undefined) {
+        strSchema = strSchema.max(maxLength);
+    }
+    const regex = pattern ? compilePattern(pattern) : undefined;
+    if (regex) {
+        strSchema = strSchema.regex(regex);
+    }
+    if (format && STRING_FORMATS[format]) {
+        strSchema = STRING_FORMATS[format](strSchema);
+    }
+    return strSchema.describe(schemaDescription);
+}
+
+function numberSchemaToZod(schemaObject: OpenAPIV3.SchemaObject, schemaDescription: string): z.ZodTypeAny {
+    const { type, minimum, maximum, multipleOf } = schemaObject;
+    const { exclusiveMinimum, exclusiveMaximum } = getJsonSchema2020Keywords(schemaObject);
+
+    let numSchema = z.number().describe(schemaDescription);
+    if (minimum !== undefined) {
+        numSchema = exclusiveMinimum === true ? numSchema.gt(minimum) : numSchema.min(minimum);
+    }
+    if (maximum !== undefined) {
+        numSchema = exclusiveMaximum === true ? numSchema.lt(maximum) : numSchema.max(maximum);
+    }
+    // since 3.1 the exclusive bounds are numbers of their own
+    if (typeof exclusiveMinimum === "number") {
+        numSchema = numSchema.gt(exclusiveMinimum);
+    }
+    if (typeof exclusiveMaximum === "number") {
+        numSchema = numSchema.lt(exclusiveMaximum);
+    }
+    if (multipleOf !== undefined) {
+        numSchema = numSchema.multipleOf(multipleOf);
+    }
+    if (type === "integer") {
+        numSchema = numSchema.int();
+    }
+    return numSchema;
+}
+
+function typedSchemaToZod(schemaObject: OpenAPIV3.SchemaObject, context: ConversionContext): z.ZodTypeAny {
+    const { description = "", title = "" } = schemaObject;
+    const type = inferSchemaType(schemaObject);
     const schemaDescription = description || title;
 
     switch (type) {
-        case "object": {
-            const shape = convertPropertiesToZodShape((properties ?? {}) as Record<string, OpenAPIV3.SchemaObject>, required);
-            return z.object(shape).describe(schemaDescription);
-        }
-        case "array": {
-            // Assuming arrays contain objects with properties.
-            const shape = convertPropertiesToZodShape((properties ?? {}) as Record<string, OpenAPIV3.SchemaObject>, required);
-            return z.array(z.object(shape)).describe(schemaDescription);
-        }
-        case "string": {
-            const strSchema = enumValues
-                ? z.enum(enumValues as unknown as readonly [string]).describe(schemaDescription)
-                : z.string().describe(schemaDescription);
-            if (format === "date-time") {
-                return strSchema.transform((val) => new Date(val));
-            }
-            return strSchema;
-        }
+        case undefined:
+            // no type and nothing to infer it from, any value is accepted
+            return z.any().describe(schemaDescription);
+        case "object":
+            return objectSchemaToZod(schemaObject, schemaDescription, context);
+        case "array":
+            return arraySchemaToZod(schemaObject as OpenAPIV3.ArraySchemaObject, schemaDescription, context);
+        case "string":
+            return stringSchemaToZod(schemaObject, schemaDescription);
         case "number":
-        case "integer": {
-            let numSchema = z.number().describe(schemaDescription);
-            if (minimum !== undefined) {
-                numSchema = numSchema.min(minimum);
-            }
-            if (maximum !== undefined) {
-                numSchema = numSchema.max(maximum);
-            }
-            if (type === "integer") {
-                numSchema = numSchema.int();
-            }
-            return numSchema;
-        }
+        case "integer":
+            return numberSchemaToZod(schemaObject, schemaDescription);
         case "boolean":
             return z.boolean().describe(schemaDescription);
+        case "null":
+            return z.null().describe(schemaDescription);
         default:
             throw new Error(`Unsupported type: ${type}`);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * schemas nested deeper than maxDepth are emitted as permissive values,
+ * returns undefined for primitives, they are still converted since they cannot nest any further
+ */
+function depthLimitedSchemaToZod(schemaObject: OpenAPIV3.SchemaObject): z.ZodTypeAny | undefined {
+    const schemaDescription = schemaObject.description || schemaObject.title || "";
+    switch (inferSchemaType(schemaObject)) {
+        case "string":
+        case "number":
+        case "integer":
+        case "boolean":
+        case "null":
+            return undefined;
+        case "array":
+            return z.array(z.any()).describe(schemaDescription);
+        default:
+            return z.object({}).passthrough().describe(schemaDescription);
+    }
+}
+
+function constSchemaToZod(schemaObject: OpenAPIV3.SchemaObject): z.ZodTypeAny | undefined {
+    const keywords = getJsonSchema2020Keywords(schemaObject);
+    if (!("const" in keywords) || keywords.const === undefined) {
+        return undefined;
+    }
+    const { const: constValue } = keywords;
+    const schemaDescription = schemaObject.description || schemaObject.title || "";
+    if (constValue === null || typeof constValue !== "object") {
+        return z.literal(constValue as z.Primitive).describe(schemaDescription);
+    }
+    const expected = JSON.stringify(constValue);
+    return z.any()
+        .refine((value) => JSON.stringify(value) === expected, { message: `Value must be ${expected}` })
+        .describe(schemaDescription);
+}
+
+/**
+ * a list of types (3.1) becomes a union of the schema for each type,
+ * with `"null"` in the list making it nullable
+ */
+function multiTypeSchemaToZod(schemaObject: OpenAPIV3.SchemaObject, context: ConversionContext): z.ZodTypeAny | undefined {
+    const { type } = getJsonSchema2020Keywords(schemaObject);
+    if (!Array.isArray(type)) {
+        return undefined;
+    }
+    const nonNullTypes = type.filter((candidate) => candidate !== "null");
+    const isNullable = nonNullTypes.length < type.length;
+    const members = nonNullTypes.map((candidate) =>
+        schemaToZod({ ...schemaObject, type: candidate } as OpenAPIV3.SchemaObject, context)
+    );
+
+    const zodSchema = members.length === 0
+        ? z.null()
+        : members.length === 1
+            ? members[0]
+            : z.union(members as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+    return isNullable && members.length > 0 ? zodSchema.nullable() : zodSchema;
+}
+
+function schemaToZod(schemaObject: OpenAPIV3.SchemaObject, context: ConversionContext): z.ZodTypeAny {
+    return constSchemaToZod(schemaObject)
+        ?? multiTypeSchemaToZod(schemaObject, context)
+        ?? compositionToZod(schemaObject, context)
+        ?? typedSchemaToZod(schemaObject, context);
+}
+
+function convertSchema(schemaObject: OpenAPIV3.SchemaObject, context: ConversionContext): z.ZodTypeAny {
+    const pending = context.inProgress.get(schemaObject);
+    if (pending) {
+        // recursive schema, resolved once the outer conversion is done
+        return z.lazy(() => pending.zodSchema ?? z.any());
+    }
+
+    const entry: { zodSchema?: z.ZodTypeAny } = {};
+    context.inProgress.set(schemaObject, entry);
+    try {
+        const nestedContext = { ...context, depth: context.depth + 1 };
+        let zodSchema = nestedContext.depth > context.maxDepth
+            ? depthLimitedSchemaToZod(schemaObject) ?? schemaToZod(schemaObject, nestedContext)
+            : schemaToZod(schemaObject, nestedContext);
+        if (schemaObject.nullable) {
+            zodSchema = zodSchema.nullable();
+        }
+        if (schemaObject.default !== undefined) {
+            zodSchema = zodSchema.default(schemaObject.default);
+        }
+        entry.zodSchema = zodSchema;
+        return zodSchema;
+    } finally {
+        context.inProgress.delete(schemaObject);
+    }
+}
+
+export function openAPISchemaToZod(
+    schemaObject: OpenAPIV3.SchemaObject,
+    options: SchemaConversionOptions = {}
+): z.ZodTypeAny {
+    return convertSchema(schemaObject, {
+        maxDepth: options.maxDepth ?? DEFAULT_MAX_SCHEMA_DEPTH,
+        passthroughObjects: options.passthroughObjects ?? false,
+        schemas: options.schemas ?? {},
+        depth: 0,
+        inProgress: new Map(),
+    });
+}
@@ -1,32 +1,38 @@
 import { readFileSync } from "fs";
-import { OpenAPIV3 } from "openapi-client-axios";
+import axios from "axios";
 import {parse as parseYml} from "yaml";
 import logger from "./logger";
+import { normalizeOpenApiDefinition, OpenApiDefinition } from "./normalize-openapi-definition";
 
-export async function loadOpenApiSpec(specUrl: string): Promise<OpenAPIV3.Document | string> {
+function parseSpecContent(specUrl: string, content: string): OpenApiDefinition {
+    const isJson = specUrl.endsWith(".json") || content.trim().startsWith("{");
+
+    if (isJson) {
+        logger.debug("Parsing OpenAPI spec as JSON");
+        return JSON.parse(content);
+    }
+
+    logger.debug("Parsing OpenAPI spec as YAML");
+    return parseYml(content);
+}
+
+export async function loadOpenApiSpec(specUrl: string): Promise<OpenApiDefinition> {
     logger.debug(`Loading OpenAPI spec from ${specUrl}`);
     try {
         const isRemote = specUrl.startsWith("http://") || specUrl.startsWith("https://");
-        if (isRemote) {
-            logger.debug("Detected remote URL for OpenAPI spec");
-            // If the URL is remote, we can return it directly
-            return specUrl;
-        }
-        let fileContent;
+        let fileContent: string;
 
-        logger.debug("Reading OpenAPI spec from local file");
-        fileContent = readFileSync(specUrl, "utf8");
-        
-        const isJson = specUrl.endsWith(".json") || fileContent.trim().startsWith("{");
-        
-        if (isJson) {
-            logger.debug("Parsing OpenAPI spec as JSON");
-            return JSON.parse(fileContent);
+        if (isRemote) {
+            // Remote specs are fetched here as well, so they get the same normalization as local files
+            logger.debug("Fetching OpenAPI spec from remote URL");
+            const response = await axios.get<string>(specUrl, { responseType: "text" });
+            fileContent = response.data;
+        } else {
+            logger.debug("Reading OpenAPI spec from local file");
+            fileContent = readFileSync(specUrl, "utf8");
         }
 
-        logger.debug("Parsing OpenAPI spec as YAML");
-        return parseYml(fileContent);
-        
+        return normalizeOpenApiDefinition(parseSpecContent(specUrl, fileContent));
     } catch (error) {
         logger.error("Failed to load OpenAPI spec", {
             error: error instanceof Error ? error.message : String(error),
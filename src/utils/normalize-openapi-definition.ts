@@ -0,0 +1,76 @@
+import { OpenAPIV3, OpenAPIV3_1 } from "openapi-client-axios";
+import logger from "./logger";
+import { convertSwagger2ToOpenApi3, isSwagger2 } from "./convert-swagger2";
+
+export type OpenApiDefinition = OpenAPIV3.Document | OpenAPIV3_1.Document;
+
+const LOCAL_DEFS_REF_PREFIX = "#/$defs/";
+
+export function isOpenApi31(definition: OpenApiDefinition): definition is OpenAPIV3_1.Document {
+    return typeof definition.openapi === "string" && definition.openapi.startsWith("3.1");
+}
+
+/**
+ * In JSON Schema 2020-12 `#/$defs/Name` is resolved against the schema that declares `$defs`,
+ * while the OpenAPI client resolves every `$ref` against the document root.
+ * Rewrite those refs to absolute pointers to the nearest enclosing `$defs` declaring the name.
+ */
+function rewriteLocalDefsRefs(node: unknown, pointer: string, scopes: { pointer: string; defs: Record<string, unknown> }[]): number {
+    if (typeof node !== "object" || node === null) {
+        return 0;
+    }
+    if (Array.isArray(node)) {
+        return node.reduce((count: number, item, index) => count + rewriteLocalDefsRefs(item, `${pointer}/${index}`, scopes), 0);
+    }
+
+    const schema = node as Record<string, unknown>;
+    const defs = schema.$defs;
+    const nestedScopes = typeof defs === "object" && defs !== null
+        ? [...scopes, { pointer, defs: defs as Record<string, unknown> }]
+        : scopes;
+
+    let rewritten = 0;
+    const ref = schema.$ref;
+    if (typeof ref === "string" && ref.startsWith(LOCAL_DEFS_REF_PREFIX)) {
+        const defName = ref.slice(LOCAL_DEFS_REF_PREFIX.length).split("/")[0];
+        const scope = [...nestedScopes].reverse().find((candidate) => defName in candidate.defs);
+        // refs to $defs at the document root already resolve as they are
+        if (scope && scope.pointer !== "") {
+            schema.$ref = `#${scope.pointer}/$defs/${ref.slice(LOCAL_DEFS_REF_PREFIX.length)}`;
+            rewritten++;
+        }
+    }
+
+    for (const [key, value] of Object.entries(schema)) {
+        rewritten += rewriteLocalDefsRefs(value, `${pointer}/${key}`, nestedScopes);
+    }
+    return rewritten;
+}
+
+/**
+ * Prepare a parsed definition for the OpenAPI client.
+ * Swagger 2.0 documents are upgraded to OpenAPI 3.0, OpenAPI 3.1 documents get their `$defs` refs rewritten, webhooks are left out
+ * since they describe requests made by the API rather than operations to call.
+ */
+export function normalizeOpenApiDefinition(definition: OpenApiDefinition): OpenApiDefinition {
+    if (isSwagger2(definition)) {
+        return convertSwagger2ToOpenApi3(definition);
+    }
+    if (!isOpenApi31(definition)) {
+        return definition;
+    }
+    logger.debug("Normalizing OpenAPI 3.1 definition", { version: definition.openapi });
+
+    const rewrittenRefs = rewriteLocalDefsRefs(definition, "", []);
+    if (rewrittenRefs > 0) {
+        logger.debug(`Rewrote ${rewrittenRefs} $defs references to absolute pointers`);
+    }
+
+    const webhookCount = Object.keys(definition.webhooks ?? {}).length;
+    if (webhookCount > 0) {
+        logger.info(`Ignoring ${webhookCount} webhooks, only paths are exposed as tools`);
+    }
+
+    // paths are optional since 3.1, the client expects them to be present
+    return { ...definition, paths: definition.paths ?? {} };
+}
@@ -0,0 +1,134 @@
+import logger from "./logger";
+import { isSafeOperation } from "./read-only";
+
+/**
+ * Include/exclude lists for the operations exposed as tools.
+ * Within a list any entry may match, include lists of different kinds must all match.
+ * Explicitly included operationIds are always kept and explicitly excluded ones always dropped.
+ */
+export interface OperationFilterOptions {
+    includeTags?: string[];
+    excludeTags?: string[];
+    /**
+     * path globs, `*` matches within a path segment and `**` across segments
+     */
+    includePaths?: string[];
+    excludePaths?: string[];
+    includeMethods?: string[];
+    excludeMethods?: string[];
+    includeOperationIds?: string[];
+    excludeOperationIds?: string[];
+    /**
+     * only keep safe-method operations, or those opted in as safe, regardless of the other lists
+     */
+    readOnly?: boolean;
+}
+
+export interface FilterableOperation {
+    operationId: string;
+    path: string;
+    method: string;
+    tags?: string[];
+    extensions?: Record<string, unknown>;
+}
+
+export function globToRegExp(glob: string): RegExp {
+    const pattern = glob
+        .split(/(\*\*|\*|\?)/)
+        .map((part) => {
+            switch (part) {
+                case "**":
+                    return ".*";
+                case "*":
+                    return "[^/]*";
+                case "?":
+                    return "[^/]";
+                default:
+                    return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+            }
+        })
+        .join("");
+    return new RegExp(`^${pattern}$`);
+}
+
+function hasEntries(list?: string[]): list is string[] {
+    return Array.isArray(list) && list.length > 0;
+}
+
+function matchesTags(operation: FilterableOperation, tags: string[]) {
+    return (operation.tags ?? []).some((tag) => tags.includes(tag));
+}
+
+function matchesPaths(operation: FilterableOperation, globs: string[]) {
+    return globs.some((glob) => globToRegExp(glob).test(operation.path));
+}
+
+function matchesMethods(operation: FilterableOperation, methods: string[]) {
+    return methods.some((method) => method.toLowerCase() === operation.method.toLowerCase());
+}
+
+/**
+ * why an operation is filtered out, undefined when it is kept
+ */
+export function getOperationFilterReason(operation: FilterableOperation, filters: OperationFilterOptions = {}): string | undefined {
+    const {
+        includeTags, excludeTags, includePaths, excludePaths,
+        includeMethods, excludeMethods, includeOperationIds, excludeOperationIds, readOnly,
+    } = filters;
+
+    if (readOnly && !isSafeOperation(operation.method, operation.extensions)) {
+        return "unsafe method in read-only mode";
+    }
+    if (hasEntries(excludeOperationIds) && excludeOperationIds.includes(operation.operationId)) {
+        return "excluded operationId";
+    }
+    if (hasEntries(includeOperationIds) && includeOperationIds.includes(operation.operationId)) {
+        return undefined;
+    }
+
+    const hasIncludes = [includeTags, includePaths, includeMethods].some(hasEntries);
+    if (!hasIncludes && hasEntries(includeOperationIds)) {
+        return "operationId not included";
+    }
+    if (hasEntries(includeTags) && !matchesTags(operation, includeTags)) {
+        return "tag not included";
+    }
+    if (hasEntries(includePaths) && !matchesPaths(operation, includePaths)) {
+        return "path not included";
+    }
+    if (hasEntries(includeMethods) && !matchesMethods(operation, includeMethods)) {
+        return "method not included";
+    }
+
+    if (hasEntries(excludeTags) && matchesTags(operation, excludeTags)) {
+        return "excluded tag";
+    }
+    if (hasEntries(excludePaths) && matchesPaths(operation, excludePaths)) {
+        return "excluded path";
+    }
+    if (hasEntries(excludeMethods) && matchesMethods(operation, excludeMethods)) {
+        return "excluded method";
+    }
+    return undefined;
+}
+
+/**
+ * Apply the filters and log what was dropped, grouped by reason.
+ */
+export function filterOperations<T extends FilterableOperation>(operations: T[], filters: OperationFilterOptions = {}): T[] {
+    const filteredOut: Record<string, string[]> = {};
+    const kept = operations.filter((operation) => {
+        const reason = getOperationFilterReason(operation, filters);
+        if (reason) {
+            logger.debug(`Filtered out operation ${operation.operationId}`, { reason, method: operation.method, path: operation.path });
+            (filteredOut[reason] ??= []).push(operation.operationId);
+        }
+        return !reason;
+    });
+
+    const filteredCount = operations.length - kept.length;
+    if (filteredCount > 0) {
+        logger.info(`Filtered out ${filteredCount} of ${operations.length} operations`, { filteredOut });
+    }
+    return kept;
+}
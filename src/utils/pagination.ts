@@ -0,0 +1,436 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { AxiosRequestConfig, OpenAPIV3 } from "openapi-client-axios";
+import { z } from "zod";
+import logger from "./logger";
+
+/**
+ * per-call argument resuming a paginated call where a previous call stopped
+ */
+export const CONTINUATION_ARGUMENT = '_continuation';
+
+/**
+ * key of the pagination summary in the structured content
+ */
+export const PAGINATION_OUTPUT_KEY = 'pagination';
+
+/**
+ * vendor extension configuring the pagination of an operation, `false` turns it off
+ */
+export const PAGINATION_EXTENSION = 'x-mcp-pagination';
+
+/**
+ * Continuation tokens are signed with a key of this process, so that a token can only point
+ * at a page this server reported. Tokens do not outlive a restart of the server.
+ */
+const CONTINUATION_KEY = randomBytes(32);
+
+export const DEFAULT_MAX_PAGES = 5;
+export const DEFAULT_MAX_ITEMS = 1000;
+
+const CURSOR_PARAMS = ['cursor', 'page_token', 'pageToken', 'next_token', 'nextToken', 'after', 'starting_after', 'continuation', 'continuation_token', 'continuationToken'];
+const OFFSET_PARAMS = ['offset', 'skip'];
+const PAGE_PARAMS = ['page', 'page_number', 'pageNumber'];
+const SIZE_PARAMS = ['limit', 'per_page', 'perPage', 'page_size', 'pageSize', 'size', 'count', 'take'];
+const ITEMS_PATHS = ['data', 'items', 'results', 'records', 'entries', 'values', 'elements', 'nodes', 'content'];
+const NEXT_CURSOR_PATHS = [
+    'next_cursor', 'nextCursor', 'next_page_token', 'nextPageToken', 'next_token', 'nextToken', 'next',
+    'meta.next_cursor', 'meta.nextCursor', 'pagination.next_cursor', 'pagination.nextCursor',
+    'response_metadata.next_cursor', 'paging.cursors.after', 'links.next',
+];
+const TOTAL_PAGES_PATHS = ['total_pages', 'totalPages', 'last_page', 'lastPage', 'meta.total_pages', 'meta.last_page', 'pagination.total_pages', 'pagination.totalPages'];
+const TOTAL_ITEMS_PATHS = ['total', 'total_count', 'totalCount', 'meta.total', 'meta.total_count', 'pagination.total', 'pagination.total_count'];
+
+export type PaginationStyle = 'link' | 'cursor' | 'page' | 'offset';
+
+export interface PaginationConfig {
+    style: PaginationStyle;
+    /**
+     * query parameter taking the cursor, page number or offset
+     */
+    param?: string;
+    /**
+     * query parameter with the page size, used to recognize the last page
+     */
+    sizeParam?: string;
+    /**
+     * dot path of the next cursor in the body, detected when missing
+     */
+    nextPath?: string;
+    /**
+     * dot path of the items in the body, detected when missing
+     */
+    itemsPath?: string;
+    maxPages?: number;
+    maxItems?: number;
+}
+
+export interface PaginationOptions {
+    /**
+     * detect the pagination of GET operations without an x-mcp-pagination extension
+     */
+    detect?: boolean;
+    maxPages?: number;
+    maxItems?: number;
+}
+
+export interface PaginationSummary {
+    pages: number;
+    items: number;
+    complete: boolean;
+    /**
+     * pass back as the continuation argument to fetch the next pages
+     */
+    continuation?: string;
+    /**
+     * why the pagination stopped early
+     */
+    error?: string;
+}
+
+export const paginationSummarySchema = z.object({
+    pages: z.number(),
+    items: z.number(),
+    complete: z.boolean(),
+    continuation: z.string().optional(),
+    error: z.string().optional(),
+});
+
+/**
+ * the next page: an absolute URL to follow, or the value of the pagination query parameter
+ */
+export type NextPage = { url: string } | { value: string | number };
+
+export interface Page {
+    headers: Record<string, string>;
+    data: unknown;
+    /**
+     * the URL the page was fetched from, next links are resolved against it
+     */
+    url?: string;
+}
+
+interface PaginatedOperation {
+    operationId: string;
+    method: string;
+    parameters?: OpenAPIV3.ParameterObject[];
+    responses?: OpenAPIV3.ResponsesObject;
+    extensions?: Record<string, unknown>;
+}
+
+interface RequestParameter {
+    name: string;
+    in: string;
+    value: unknown;
+}
+
+function getPath(data: unknown, path: string): unknown {
+    return path.split('.').reduce<unknown>((value, key) =>
+        value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined, data);
+}
+
+function setPath(data: unknown, path: string, value: unknown): unknown {
+    const [key, ...rest] = path.split('.');
+    const object = { ...(data as Record<string, unknown>) };
+    object[key] = rest.length > 0 ? setPath(object[key], rest.join('.'), value) : value;
+    return object;
+}
+
+function findQueryParam(parameters: OpenAPIV3.ParameterObject[], names: string[]) {
+    return names.find((name) => parameters.some((param) => param.in === 'query' && param.name === name));
+}
+
+function declaresLinkHeader(responses: OpenAPIV3.ResponsesObject = {}) {
+    return Object.entries(responses)
+        .filter(([statusCode]) => statusCode.startsWith('2'))
+        .some(([, response]) => Object.keys((response as OpenAPIV3.ResponseObject).headers ?? {})
+            .some((header) => header.toLowerCase() === 'link'));
+}
+
+/**
+ * recognize the pagination from the parameters and the declared response headers
+ */
+function detectPagination(operation: PaginatedOperation): PaginationConfig | undefined {
+    const parameters = operation.parameters ?? [];
+    const sizeParam = findQueryParam(parameters, SIZE_PARAMS);
+    const cursorParam = findQueryParam(parameters, CURSOR_PARAMS);
+    if (cursorParam) {
+        return { style: 'cursor', param: cursorParam, sizeParam };
+    }
+    const offsetParam = findQueryParam(parameters, OFFSET_PARAMS);
+    if (offsetParam) {
+        return { style: 'offset', param: offsetParam, sizeParam };
+    }
+    const pageParam = findQueryParam(parameters, PAGE_PARAMS);
+    if (pageParam) {
+        return { style: 'page', param: pageParam, sizeParam };
+    }
+    if (declaresLinkHeader(operation.responses)) {
+        return { style: 'link' };
+    }
+    return undefined;
+}
+
+const DEFAULT_PARAMS: Record<PaginationStyle, string | undefined> = {
+    link: undefined,
+    cursor: 'cursor',
+    page: 'page',
+    offset: 'offset',
+};
+
+/**
+ * The pagination of an operation, from its x-mcp-pagination extension:
+ * `false` turns it off, `true` or a config without a style asks for detection.
+ * Without the extension GET operations are detected when enabled.
+ */
+export function getPaginationConfig(operation: PaginatedOperation, options: PaginationOptions = {}): PaginationConfig | undefined {
+    const extension = operation.extensions?.[PAGINATION_EXTENSION];
+    if (extension === false) {
+        return undefined;
+    }
+    const configured = extension && typeof extension === 'object' ? extension as Partial<PaginationConfig> : undefined;
+    const shouldDetect = !configured?.style
+        && (extension !== undefined || (options.detect && operation.method.toLowerCase() === 'get'));
+    const detected = shouldDetect ? detectPagination(operation) : undefined;
+    const style = configured?.style ?? detected?.style;
+    if (!style) {
+        return undefined;
+    }
+    return {
+        ...detected,
+        ...configured,
+        style,
+        param: configured?.param ?? detected?.param ?? DEFAULT_PARAMS[style],
+        maxPages: configured?.maxPages ?? options.maxPages ?? DEFAULT_MAX_PAGES,
+        maxItems: configured?.maxItems ?? options.maxItems ?? DEFAULT_MAX_ITEMS,
+    };
+}
+
+/**
+ * the items of a page: the body itself, the configured path, a well-known property or the only array property
+ */
+export function getPageItems(data: unknown, itemsPath?: string): { items: unknown[]; path?: string } | undefined {
+    if (Array.isArray(data)) {
+        return { items: data };
+    }
+    if (!data || typeof data !== 'object') {
+        return undefined;
+    }
+    if (itemsPath) {
+        const items = getPath(data, itemsPath);
+        return Array.isArray(items) ? { items, path: itemsPath } : undefined;
+    }
+    const knownPath = ITEMS_PATHS.find((path) => Array.isArray(getPath(data, path)));
+    if (knownPath) {
+        return { items: getPath(data, knownPath) as unknown[], path: knownPath };
+    }
+    const arrayPaths = Object.keys(data).filter((key) => Array.isArray((data as Record<string, unknown>)[key]));
+    return arrayPaths.length === 1
+        ? { items: (data as Record<string, unknown[]>)[arrayPaths[0]], path: arrayPaths[0] }
+        : undefined;
+}
+
+/**
+ * the rel="next" target of a Link header
+ */
+export function getNextLink(header?: string): string | undefined {
+    return header
+        ?.split(/,(?=\s*<)/)
+        .map((link) => link.match(/<([^>]*)>(.*)/))
+        .find((match) => match && /;\s*rel="?([^";]*\s)?next(\s[^";]*)?"?/i.test(match[2]))?.[1];
+}
+
+function getHeader(headers: Record<string, string> = {}, name: string): string | undefined {
+    return Object.entries(headers).find(([header]) => header.toLowerCase() === name)?.[1];
+}
+
+function getNumber(data: unknown, paths: string[]): number | undefined {
+    return paths.map((path) => Number(getPath(data, path))).find((value) => Number.isFinite(value) && value > 0);
+}
+
+function resolveUrl(url: string, base?: string): string | undefined {
+    try {
+        return new URL(url, base).toString();
+    }
+    catch {
+        return undefined;
+    }
+}
+
+/**
+ * The page after the given one, undefined on the last page.
+ * `current` is the cursor, page number or offset the page was fetched with.
+ */
+export function getNextPage(
+    page: Page,
+    itemCount: number,
+    current: string | number | undefined,
+    config: PaginationConfig,
+    pageSize?: number
+): NextPage | undefined {
+    if (config.style === 'link') {
+        const link = getNextLink(getHeader(page.headers, 'link'));
+        const url = link ? resolveUrl(link, page.url) : undefined;
+        return url ? { url } : undefined;
+    }
+
+    if (config.style === 'cursor') {
+        const paths = config.nextPath ? [config.nextPath] : NEXT_CURSOR_PATHS;
+        const cursor = paths.map((path) => getPath(page.data, path))
+            .find((value) => (typeof value === 'string' && value !== '') || typeof value === 'number');
+        if (cursor === undefined || cursor === current) {
+            return undefined;
+        }
+        // some APIs return the URL of the next page instead of a cursor
+        if (typeof cursor === 'string' && /^https?:\/\//i.test(cursor)) {
+            return { url: cursor };
+        }
+        return { value: cursor as string | number };
+    }
+
+    if (itemCount === 0 || (pageSize !== undefined && itemCount < pageSize)) {
+        return undefined;
+    }
+    if (config.style === 'page') {
+        const pageNumber = Number(current ?? 1);
+        const totalPages = getNumber(page.data, TOTAL_PAGES_PATHS);
+        return totalPages !== undefined && pageNumber >= totalPages ? undefined : { value: pageNumber + 1 };
+    }
+    const offset = Number(current ?? 0) + itemCount;
+    const total = getNumber(page.data, TOTAL_ITEMS_PATHS);
+    return total !== undefined && offset >= total ? undefined : { value: offset };
+}
+
+/**
+ * Point the request at the next page. Next URLs replace the path and query of the request,
+ * other pages replace the value of the pagination query parameter.
+ */
+export function applyNextPage(
+    next: NextPage,
+    params: RequestParameter[],
+    config: AxiosRequestConfig,
+    pagination: PaginationConfig
+): { params: RequestParameter[]; config: AxiosRequestConfig } {
+    if ('url' in next) {
+        const queryParams = params.filter((param) => param.in === 'query');
+        return {
+            params: params.filter((param) => param.in !== 'query'),
+            config: { ...config, url: next.url, params: Object.fromEntries(queryParams.map((param) => [param.name, undefined])) },
+        };
+    }
+    const name = pagination.param as string;
+    return {
+        params: [...params.filter((param) => !(param.in === 'query' && param.name === name)), { name, in: 'query', value: next.value }],
+        config,
+    };
+}
+
+function signContinuation(payload: string) {
+    return createHmac('sha256', CONTINUATION_KEY).update(payload).digest();
+}
+
+export function encodeContinuation(operationId: string, next: NextPage): string {
+    const payload = Buffer.from(JSON.stringify({ operationId, next })).toString('base64url');
+    return `${payload}.${signContinuation(payload).toString('base64url')}`;
+}
+
+export function decodeContinuation(operationId: string, token: string): NextPage {
+    try {
+        const [payload, signature = ''] = token.split('.');
+        const expected = signContinuation(payload);
+        const actual = Buffer.from(signature, 'base64url');
+        if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+            throw new Error('Invalid signature');
+        }
+        const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        if (decoded.operationId === operationId && decoded.next && ('url' in decoded.next || 'value' in decoded.next)) {
+            return decoded.next;
+        }
+    }
+    catch {
+        // reported below
+    }
+    throw new Error(`Invalid continuation token for operation ${operationId}`);
+}
+
+export function isSameOrigin(url: string, base?: string) {
+    try {
+        return base !== undefined && new URL(url).origin === new URL(base).origin;
+    }
+    catch {
+        return false;
+    }
+}
+
+function getParamValue(params: RequestParameter[], name?: string) {
+    const value = params.find((param) => param.in === 'query' && param.name === name)?.value;
+    return typeof value === 'string' || typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Fetch the pages after the first one until the last page or the limits are reached.
+ * The items of all pages replace the items of the first page in the combined result.
+ * Returns undefined when the first page has no recognizable items.
+ */
+export async function collectPages(
+    operationId: string,
+    first: Page,
+    params: RequestParameter[],
+    config: PaginationConfig,
+    fetchPage: (next: NextPage) => Promise<Page>
+): Promise<{ data: unknown; summary: PaginationSummary } | undefined> {
+    const firstItems = getPageItems(first.data, config.itemsPath);
+    if (!firstItems) {
+        logger.debug(`No items found in the response of operation ${operationId}, not paginating`);
+        return undefined;
+    }
+    const { maxPages = DEFAULT_MAX_PAGES, maxItems = DEFAULT_MAX_ITEMS } = config;
+    const sizeValue = Number(getParamValue(params, config.sizeParam));
+    const pageSize = Number.isFinite(sizeValue) && sizeValue > 0 ? sizeValue : undefined;
+
+    const items = [...firstItems.items];
+    let pages = 1;
+    let error: string | undefined;
+    let current = getParamValue(params, config.param);
+    let next = getNextPage(first, firstItems.items.length, current, config, pageSize);
+    while (next && pages < maxPages && items.length < maxItems) {
+        if ('url' in next && !isSameOrigin(next.url, first.url)) {
+            error = `The next page ${next.url} is on another origin and was not fetched`;
+            logger.warn(`Stopped paginating operation ${operationId}`, { error });
+            next = undefined;
+            break;
+        }
+        let page: Page;
+        try {
+            page = await fetchPage(next);
+        }
+        catch (pageError: any) {
+            error = `Fetching page ${pages + 1} failed: ${pageError.message ?? pageError}`;
+            logger.warn(`Stopped paginating operation ${operationId}`, { error });
+            break;
+        }
+        const pageItems = getPageItems(page.data, firstItems.path ?? config.itemsPath);
+        if (!pageItems) {
+            error = `Page ${pages + 1} has no items`;
+            logger.warn(`Stopped paginating operation ${operationId}`, { error });
+            next = undefined;
+            break;
+        }
+        items.push(...pageItems.items);
+        pages++;
+        current = 'value' in next ? next.value : undefined;
+        next = getNextPage(page, pageItems.items.length, current, config, pageSize);
+    }
+
+    const summary: PaginationSummary = {
+        pages,
+        items: items.length,
+        complete: !next && !error,
+        ...(next ? { continuation: encodeContinuation(operationId, next) } : {}),
+        ...(error ? { error } : {}),
+    };
+    logger.info(`Collected ${pages} pages of operation ${operationId}`, summary);
+    return {
+        data: firstItems.path ? setPath(first.data, firstItems.path, items) : items,
+        summary,
+    };
+}
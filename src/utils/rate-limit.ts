@@ -0,0 +1,221 @@
+import logger from "./logger";
+
+export const DEFAULT_MAX_QUEUE_WAIT = 30_000;
+
+/**
+ * error codes of calls given up on before they were sent
+ */
+export const QUEUE_TIMEOUT_CODE = 'EQUEUETIMEOUT';
+
+export interface LimitOptions {
+    /**
+     * requests per second, decimals allowed, e.g. 0.5 for one request every two seconds
+     */
+    rate?: number;
+    /**
+     * requests that may be sent at once after an idle period, defaults to one second worth of requests
+     */
+    burst?: number;
+    /**
+     * requests in flight at the same time
+     */
+    concurrency?: number;
+}
+
+export interface RateLimitOptions {
+    global?: LimitOptions;
+    /**
+     * limits applied to every upstream host separately
+     */
+    perHost?: LimitOptions;
+    /**
+     * limits by operationId
+     */
+    operations?: Record<string, LimitOptions>;
+    /**
+     * how long in ms a call may wait in the queues before it is given up on
+     */
+    maxWait?: number;
+}
+
+export interface LimitKey {
+    operationId: string;
+    host?: string;
+}
+
+export interface RateLimiter {
+    /**
+     * whether the host of the request is needed to pick the limits
+     */
+    readonly usesHosts: boolean;
+    schedule<T>(key: LimitKey, task: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+}
+
+interface Waiter {
+    grant: (release: () => void) => void;
+}
+
+interface Limiter {
+    acquire(label: string, deadline: number, signal?: AbortSignal): Promise<() => void>;
+}
+
+function hasLimits(options?: LimitOptions): options is LimitOptions {
+    return !!options && (options.rate !== undefined || options.concurrency !== undefined);
+}
+
+/**
+ * A token bucket combined with a concurrency cap, waiters are served first come, first served.
+ */
+function createLimiter(name: string, { rate, burst, concurrency }: LimitOptions): Limiter {
+    const capacity = burst ?? Math.max(1, Math.ceil(rate ?? 1));
+    let tokens = capacity;
+    let refilledAt = Date.now();
+    let active = 0;
+    let refillTimer: NodeJS.Timeout | undefined;
+    const queue: Waiter[] = [];
+
+    const refill = () => {
+        if (rate === undefined) {
+            return;
+        }
+        const now = Date.now();
+        tokens = Math.min(capacity, tokens + ((now - refilledAt) / 1000) * rate);
+        refilledAt = now;
+    };
+
+    const release = () => {
+        active--;
+        grant();
+    };
+
+    const grant = () => {
+        while (queue.length > 0) {
+            refill();
+            if (concurrency !== undefined && active >= concurrency) {
+                return;
+            }
+            if (rate !== undefined && tokens < 1) {
+                if (!refillTimer) {
+                    refillTimer = setTimeout(() => {
+                        refillTimer = undefined;
+                        grant();
+                    }, Math.ceil(((1 - tokens) / rate) * 1000));
+                }
+                return;
+            }
+            const waiter = queue.shift() as Waiter;
+            if (rate !== undefined) {
+                tokens -= 1;
+            }
+            active++;
+            let released = false;
+            waiter.grant(() => {
+                if (!released) {
+                    released = true;
+                    release();
+                }
+            });
+        }
+    };
+
+    return {
+        acquire(label, deadline, signal) {
+            return new Promise((resolve, reject) => {
+                const queuedAt = Date.now();
+                const cleanup = () => {
+                    clearTimeout(timer);
+                    signal?.removeEventListener('abort', onAbort);
+                };
+                const waiter: Waiter = {
+                    grant: (releaseSlot) => {
+                        cleanup();
+                        const wait = Date.now() - queuedAt;
+                        if (wait > 0) {
+                            logger.info(`Operation ${label} waited ${wait}ms for the ${name} limit`, { wait, queueDepth: queue.length });
+                        }
+                        resolve(releaseSlot);
+                    },
+                };
+                const leave = () => {
+                    const index = queue.indexOf(waiter);
+                    if (index !== -1) {
+                        queue.splice(index, 1);
+                    }
+                };
+                const onAbort = () => {
+                    leave();
+                    cleanup();
+                    reject(signal?.reason);
+                };
+                const timer = setTimeout(() => {
+                    leave();
+                    cleanup();
+                    const wait = Date.now() - queuedAt;
+                    logger.warn(`Operation ${label} gave up waiting for the ${name} limit`, { wait, queueDepth: queue.length });
+                    reject(Object.assign(new Error(`Waited ${wait}ms for the ${name} limit without getting a slot`), { code: QUEUE_TIMEOUT_CODE }));
+                }, Math.max(0, deadline - Date.now()));
+
+                if (signal?.aborted) {
+                    onAbort();
+                    return;
+                }
+                signal?.addEventListener('abort', onAbort, { once: true });
+                queue.push(waiter);
+                grant();
+                if (queue.includes(waiter)) {
+                    logger.info(`Queued operation ${label} behind the ${name} limit`, { queueDepth: queue.length, active });
+                }
+            });
+        },
+    };
+}
+
+/**
+ * Limits shared by all tools and sessions of a server.
+ * A call takes a slot of its operation, its host and the global limits, most specific first,
+ * and holds them until the request completes.
+ */
+export function createRateLimiter(options: RateLimitOptions = {}): RateLimiter {
+    const { global, perHost, operations = {}, maxWait = DEFAULT_MAX_QUEUE_WAIT } = options;
+    const globalLimiter = hasLimits(global) ? createLimiter('global', global) : undefined;
+    const hostLimiters = new Map<string, Limiter>();
+    const operationLimiters = new Map<string, Limiter>();
+
+    const getLimiters = ({ operationId, host }: LimitKey): Limiter[] => {
+        const limiters: Limiter[] = [];
+        const operationLimits = operations[operationId];
+        if (hasLimits(operationLimits)) {
+            if (!operationLimiters.has(operationId)) {
+                operationLimiters.set(operationId, createLimiter(`operation ${operationId}`, operationLimits));
+            }
+            limiters.push(operationLimiters.get(operationId) as Limiter);
+        }
+        if (host && hasLimits(perHost)) {
+            if (!hostLimiters.has(host)) {
+                hostLimiters.set(host, createLimiter(`host ${host}`, perHost));
+            }
+            limiters.push(hostLimiters.get(host) as Limiter);
+        }
+        if (globalLimiter) {
+            limiters.push(globalLimiter);
+        }
+        return limiters;
+    };
+
+    return {
+        usesHosts: hasLimits(perHost),
+        async schedule(key, task, signal) {
+            const deadline = Date.now() + maxWait;
+            const releases: (() => void)[] = [];
+            try {
+                for (const limiter of getLimiters(key)) {
+                    releases.push(await limiter.acquire(key.operationId, deadline, signal));
+                }
+                return await task();
+            }
+            finally {
+                releases.reverse().forEach((release) => release());
+            }
+        },
+    };
+}
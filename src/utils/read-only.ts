@@ -0,0 +1,86 @@
+import logger from "./logger";
+
+export const SAFE_METHODS = ['get', 'head', 'options'];
+
+/**
+ * vendor extension marking an operation with an unsafe method as safe,
+ * e.g. POST based search endpoints that do not change anything
+ */
+export const SAFE_OPERATION_EXTENSION = 'x-mcp-safe';
+
+/**
+ * headers and query parameters used by frameworks to tunnel another method through GET/POST
+ */
+const METHOD_OVERRIDE_HEADERS = ['x-http-method-override', 'x-http-method', 'x-method-override'];
+const METHOD_OVERRIDE_QUERY_PARAMETERS = ['_method'];
+
+interface RequestParameter {
+    name: string;
+    in: string;
+    value: unknown;
+}
+
+export function isSafeMethod(method = '') {
+    return SAFE_METHODS.includes(method.toLowerCase());
+}
+
+export function isSafeOperation(method?: string, extensions: Record<string, unknown> = {}) {
+    return isSafeMethod(method) || extensions[SAFE_OPERATION_EXTENSION] === true;
+}
+
+/**
+ * every method requested through override headers or query parameters,
+ * a server may honour any of them so all have to be checked
+ */
+export function getMethodOverrides(
+    params: RequestParameter[] = [],
+    headers: Record<string, unknown> = {}
+): string[] {
+    const headerOverrides = Object.entries(headers)
+        .filter(([name]) => METHOD_OVERRIDE_HEADERS.includes(name.toLowerCase()))
+        .map(([, value]) => value);
+    const paramOverrides = params
+        .filter((param) =>
+            (param.in === 'header' && METHOD_OVERRIDE_HEADERS.includes(param.name.toLowerCase()))
+            || (param.in === 'query' && METHOD_OVERRIDE_QUERY_PARAMETERS.includes(param.name))
+        )
+        .map((param) => param.value);
+    return [...paramOverrides, ...headerOverrides]
+        .flat()
+        .filter((value) => value !== undefined)
+        .map(String);
+}
+
+/**
+ * the query parameters of a URL, e.g. of a next page link that replaces the query of the request
+ */
+export function getQueryParameters(url: string): RequestParameter[] {
+    try {
+        return [...new URL(url, 'http://localhost').searchParams].map(([name, value]) => ({ name, in: 'query', value }));
+    }
+    catch {
+        return [];
+    }
+}
+
+/**
+ * Why a request may not be sent in read-only mode, undefined when it is safe.
+ * Operations opted in with SAFE_OPERATION_EXTENSION are trusted with their own method,
+ * but not with a method override to an unsafe method.
+ */
+export function getReadOnlyViolation(
+    method: string | undefined,
+    extensions: Record<string, unknown> = {},
+    params: RequestParameter[] = [],
+    headers: Record<string, unknown> = {}
+): string | undefined {
+    if (!isSafeOperation(method, extensions)) {
+        return `${method?.toUpperCase()} requests are not allowed in read-only mode`;
+    }
+    const override = getMethodOverrides(params, headers).find((value) => !isSafeMethod(value));
+    if (override !== undefined) {
+        logger.warn('Method override to an unsafe method in read-only mode', { method, override });
+        return `Overriding the method to ${override.toUpperCase()} is not allowed in read-only mode`;
+    }
+    return undefined;
+}
@@ -0,0 +1,254 @@
+import { z } from "zod";
+import logger from "./logger";
+
+/**
+ * per-call argument selecting the fields of the response to return
+ */
+export const FIELDS_ARGUMENT = '_fields';
+
+/**
+ * key of the truncation summary in the structured content
+ */
+export const TRUNCATION_OUTPUT_KEY = 'truncation';
+
+/**
+ * characters of pretty-printed JSON, about 4000 tokens
+ */
+export const DEFAULT_MAX_RESPONSE_SIZE = 16_000;
+export const DEFAULT_MAX_STRING_LENGTH = 1_000;
+
+/**
+ * strings are not cut shorter than this before giving up on the structure
+ */
+const MIN_STRING_LENGTH = 40;
+const TRUNCATION_MARKER = '…';
+
+export interface ResponseBudgetOptions {
+    /**
+     * characters of response data returned per call, 0 disables the budget
+     */
+    maxSize?: number;
+    /**
+     * length long strings are cut to once the response is over the budget
+     */
+    maxStringLength?: number;
+}
+
+export interface DroppedContent {
+    /**
+     * JSONPath of the truncated arrays or strings, `[*]` stands for every array item
+     */
+    path: string;
+    items?: number;
+    characters?: number;
+}
+
+export interface TruncationSummary {
+    originalSize: number;
+    size: number;
+    /**
+     * the requested fields, when the response was projected
+     */
+    fields?: string[];
+    dropped: DroppedContent[];
+}
+
+export const truncationSummarySchema = z.object({
+    originalSize: z.number(),
+    size: z.number(),
+    fields: z.array(z.string()).optional(),
+    dropped: z.array(z.object({
+        path: z.string(),
+        items: z.number().optional(),
+        characters: z.number().optional(),
+    })),
+});
+
+interface FieldTree {
+    [key: string]: FieldTree | true;
+}
+
+interface Limits {
+    arrayItems: number;
+    stringLength: number;
+}
+
+interface Attempt {
+    data: unknown;
+    size: number;
+    dropped: Map<string, DroppedContent>;
+}
+
+function getSize(data: unknown): number {
+    return JSON.stringify(data, null, 2)?.length ?? 0;
+}
+
+/**
+ * `items.id`, `items[].id` and `$.items[*].id` all select the id of every item
+ */
+function parseFieldPath(field: string): string[] {
+    return field.trim()
+        .replace(/^\$\.?/, '')
+        .replace(/\[\*?\]/g, '')
+        .split('.')
+        .filter(Boolean);
+}
+
+function buildFieldTree(fields: string[]): FieldTree {
+    const tree: FieldTree = {};
+    for (const path of fields.map(parseFieldPath).filter((path) => path.length > 0)) {
+        let node = tree;
+        for (const [index, key] of path.entries()) {
+            if (node[key] === true) {
+                break;
+            }
+            if (index === path.length - 1) {
+                node[key] = true;
+                break;
+            }
+            node[key] = node[key] ?? {};
+            node = node[key] as FieldTree;
+        }
+    }
+    return tree;
+}
+
+function project(data: unknown, tree: FieldTree | true): unknown {
+    if (tree === true) {
+        return data;
+    }
+    if (Array.isArray(data)) {
+        return data.map((item) => project(item, tree));
+    }
+    if (data && typeof data === 'object') {
+        const object = data as Record<string, unknown>;
+        return Object.fromEntries(Object.entries(tree)
+            .filter(([key]) => key in object)
+            .map(([key, subtree]) => [key, project(object[key], subtree)]));
+    }
+    return undefined;
+}
+
+/**
+ * Keep only the given fields, arrays are traversed so that a field applies to every item.
+ */
+export function projectFields(data: unknown, fields: string[]): unknown {
+    return project(data, buildFieldTree(fields));
+}
+
+function recordDropped(dropped: Map<string, DroppedContent>, path: string, kind: 'items' | 'characters', count: number) {
+    const entry = dropped.get(path) ?? { path };
+    entry[kind] = (entry[kind] ?? 0) + count;
+    dropped.set(path, entry);
+}
+
+function truncateValue(data: unknown, limits: Limits, path: string, dropped: Map<string, DroppedContent>): unknown {
+    if (typeof data === 'string') {
+        if (data.length <= limits.stringLength) {
+            return data;
+        }
+        recordDropped(dropped, path, 'characters', data.length - limits.stringLength);
+        return `${data.slice(0, limits.stringLength)}${TRUNCATION_MARKER}`;
+    }
+    if (Array.isArray(data)) {
+        if (data.length > limits.arrayItems) {
+            recordDropped(dropped, path, 'items', data.length - limits.arrayItems);
+        }
+        return data.slice(0, limits.arrayItems).map((item) => truncateValue(item, limits, `${path}[*]`, dropped));
+    }
+    if (data && typeof data === 'object') {
+        return Object.fromEntries(Object.entries(data)
+            .map(([key, value]) => [key, truncateValue(value, limits, `${path}.${key}`, dropped)]));
+    }
+    return data;
+}
+
+function getMaxArrayLength(data: unknown): number {
+    const values = Array.isArray(data) ? data : data && typeof data === 'object' ? Object.values(data) : [];
+    return values.reduce<number>((max, value) => Math.max(max, getMaxArrayLength(value)), Array.isArray(data) ? data.length : 0);
+}
+
+function attempt(data: unknown, limits: Limits): Attempt {
+    const dropped = new Map<string, DroppedContent>();
+    const truncated = truncateValue(data, limits, '$', dropped);
+    return { data: truncated, size: getSize(truncated), dropped };
+}
+
+/**
+ * the attempt with the largest limit in [low, high] that fits, the size only grows with the limit
+ */
+function findLargestFit(low: number, high: number, maxSize: number, tryLimit: (limit: number) => Attempt): Attempt | undefined {
+    let best: Attempt | undefined;
+    while (low <= high) {
+        const limit = Math.floor((low + high) / 2);
+        const result = tryLimit(limit);
+        if (result.size <= maxSize) {
+            best = result;
+            low = limit + 1;
+        }
+        else {
+            high = limit - 1;
+        }
+    }
+    return best;
+}
+
+/**
+ * Fit the data into the budget: long strings are cut first, then every array keeps
+ * as many leading items as fit, then strings are cut further. Data that still does
+ * not fit is returned as its JSON text, cut to the budget.
+ */
+function truncateData(data: unknown, maxSize: number, maxStringLength: number): Attempt {
+    if (typeof data === 'string') {
+        return attempt(data, { arrayItems: 0, stringLength: maxSize });
+    }
+    const stringLength = Math.min(maxStringLength, maxSize);
+    const maxArrayLength = getMaxArrayLength(data);
+    const shortened = attempt(data, { arrayItems: maxArrayLength, stringLength });
+    if (shortened.size <= maxSize) {
+        return shortened;
+    }
+    const fewerItems = findLargestFit(1, maxArrayLength - 1, maxSize, (arrayItems) => attempt(data, { arrayItems, stringLength }));
+    if (fewerItems) {
+        return fewerItems;
+    }
+    const shorterStrings = findLargestFit(MIN_STRING_LENGTH, stringLength - 1, maxSize,
+        (length) => attempt(data, { arrayItems: Math.min(1, maxArrayLength), stringLength: length }));
+    if (shorterStrings) {
+        return shorterStrings;
+    }
+    return attempt(JSON.stringify(data, null, 2), { arrayItems: 0, stringLength: maxSize });
+}
+
+/**
+ * Project the data to the requested fields and fit it into the response budget.
+ * The summary is only returned when the data was changed.
+ */
+export function applyResponseBudget(
+    data: unknown,
+    fields: string[] = [],
+    options: ResponseBudgetOptions = {}
+): { data: unknown; summary?: TruncationSummary } {
+    const { maxSize = DEFAULT_MAX_RESPONSE_SIZE, maxStringLength = DEFAULT_MAX_STRING_LENGTH } = options;
+    if (data === undefined || Buffer.isBuffer(data)) {
+        return { data };
+    }
+    const projected = fields.length > 0 ? projectFields(data, fields) : data;
+    const originalSize = getSize(data);
+    const projectedSize = fields.length > 0 ? getSize(projected) : originalSize;
+    if (maxSize === 0 || projectedSize <= maxSize) {
+        return fields.length > 0
+            ? { data: projected, summary: { originalSize, size: projectedSize, fields, dropped: [] } }
+            : { data };
+    }
+
+    const truncated = truncateData(projected, maxSize, maxStringLength);
+    const summary: TruncationSummary = {
+        originalSize,
+        size: truncated.size,
+        ...(fields.length > 0 ? { fields } : {}),
+        dropped: [...truncated.dropped.values()],
+    };
+    logger.info('Truncated response to fit the response budget', { originalSize, size: truncated.size, maxSize });
+    return { data: truncated.data, summary };
+}
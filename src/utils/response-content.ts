@@ -0,0 +1,76 @@
+import logger from "./logger";
+
+/**
+ * binary bodies above this size are returned as a resource link instead of inline base64
+ */
+export const DEFAULT_MAX_BINARY_SIZE = 1024 * 1024;
+
+const JSON_CONTENT_TYPE_PATTERN = /^application\/([\w.-]+\+)?json\b/i;
+const TEXT_CONTENT_TYPE_PATTERNS = [
+    /^text\//i,
+    JSON_CONTENT_TYPE_PATTERN,
+    /^application\/([\w.-]+\+)?xml\b/i,
+    /^application\/(x-)?(yaml|javascript|ecmascript|x-www-form-urlencoded|graphql)\b/i,
+];
+
+export function isTextContentType(contentType: string) {
+    return TEXT_CONTENT_TYPE_PATTERNS.some((pattern) => pattern.test(contentType));
+}
+
+function toBuffer(data: unknown): Buffer | undefined {
+    if (Buffer.isBuffer(data)) {
+        return data;
+    }
+    if (data instanceof ArrayBuffer) {
+        return Buffer.from(data);
+    }
+    if (ArrayBuffer.isView(data)) {
+        return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+    }
+    return undefined;
+}
+
+/**
+ * Responses are fetched as raw bytes so binary bodies survive intact.
+ * Text and JSON bodies are decoded here the way axios would have,
+ * JSON that does not parse is kept as a string. Binary bodies stay a Buffer.
+ */
+export function decodeResponseData(data: unknown, contentType = ""): unknown {
+    const buffer = toBuffer(data);
+    if (!buffer) {
+        return data;
+    }
+    if (buffer.length === 0) {
+        return undefined;
+    }
+    // without a content type the body is most likely JSON or text, as axios assumes
+    if (contentType && !isTextContentType(contentType)) {
+        logger.debug("Keeping binary response body", { contentType, size: buffer.length });
+        return buffer;
+    }
+
+    const text = buffer.toString("utf8");
+    if (!contentType || JSON_CONTENT_TYPE_PATTERN.test(contentType)) {
+        try {
+            return JSON.parse(text);
+        } catch {
+            logger.debug("Response body is not valid JSON, keeping it as text", { contentType });
+        }
+    }
+    return text;
+}
+
+/**
+ * the file name announced in a Content-Disposition header, if any
+ */
+export function getContentDispositionFilename(contentDisposition?: string): string | undefined {
+    const match = contentDisposition?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+    if (!match) {
+        return undefined;
+    }
+    try {
+        return decodeURIComponent(match[1]);
+    } catch {
+        return match[1];
+    }
+}
@@ -0,0 +1,69 @@
+/**
+ * What the text content of a result wraps around the response body:
+ * the body alone, the body with the status code, or both with the allowed headers.
+ */
+export type EnvelopeMode = 'body' | 'status' | 'full';
+
+export const ENVELOPE_MODES: EnvelopeMode[] = ['body', 'status', 'full'];
+export const DEFAULT_ENVELOPE_MODE: EnvelopeMode = 'full';
+
+/**
+ * headers worth the tokens, a trailing `*` matches any suffix
+ */
+export const DEFAULT_HEADER_ALLOWLIST = [
+    'content-type',
+    'location',
+    'content-location',
+    'content-disposition',
+    'link',
+    'retry-after',
+    'ratelimit*',
+    'x-ratelimit-*',
+];
+
+export interface EnvelopeOptions {
+    mode?: EnvelopeMode;
+    /**
+     * names of the headers to return, case-insensitive, `*` returns all of them
+     */
+    headers?: string[];
+}
+
+export interface EnvelopeResult {
+    statusCode: number;
+    headers?: Record<string, string>;
+    data: unknown;
+}
+
+function isAllowedHeader(name: string, allowlist: string[]) {
+    const header = name.toLowerCase();
+    return allowlist.some((entry) => {
+        const allowed = entry.toLowerCase();
+        return allowed.endsWith('*') ? header.startsWith(allowed.slice(0, -1)) : header === allowed;
+    });
+}
+
+export function filterHeaders(headers: Record<string, string> = {}, allowlist = DEFAULT_HEADER_ALLOWLIST): Record<string, string> {
+    return Object.fromEntries(Object.entries(headers).filter(([name]) => isAllowedHeader(name, allowlist)));
+}
+
+/**
+ * The value serialized as the text content of a result, extra fields like
+ * pagination summaries are kept next to the body unless only the body is returned.
+ */
+export function getResultEnvelope(
+    result: EnvelopeResult,
+    extra: Record<string, unknown> = {},
+    options: EnvelopeOptions = {}
+): unknown {
+    const { mode = DEFAULT_ENVELOPE_MODE, headers = DEFAULT_HEADER_ALLOWLIST } = options;
+    if (mode === 'body') {
+        return result.data;
+    }
+    return {
+        statusCode: result.statusCode,
+        ...(mode === 'full' ? { headers: filterHeaders(result.headers, headers) } : {}),
+        data: result.data,
+        ...extra,
+    };
+}
@@ -0,0 +1,197 @@
+import logger from "./logger";
+
+export const DEFAULT_RETRY_MAX_ATTEMPTS = 3;
+export const DEFAULT_RETRY_BASE_DELAY = 500;
+export const DEFAULT_RETRY_MAX_DELAY = 30_000;
+export const DEFAULT_RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+/**
+ * transport errors worth another attempt, refused connections usually mean a wrong base URL
+ */
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EPIPE', 'EAI_AGAIN'];
+
+export interface RetryOptions {
+    /**
+     * attempts including the first one, 1 disables retries
+     */
+    maxAttempts?: number;
+    /**
+     * delay in ms before the first retry, doubled on every further retry
+     */
+    baseDelay?: number;
+    /**
+     * cap in ms of the backoff, server hints asking for longer waits are not retried
+     */
+    maxDelay?: number;
+    retryableStatuses?: number[];
+    /**
+     * also retry operations that are not idempotent, like POST
+     */
+    retryNonIdempotent?: boolean;
+}
+
+export interface RetryAttempt {
+    /**
+     * the attempt that failed
+     */
+    attempt: number;
+    maxAttempts: number;
+    delay: number;
+    reason: string;
+}
+
+export interface RetryContext {
+    /**
+     * whether the request may be sent again, failures of other requests are never retried
+     */
+    idempotent: boolean;
+    /**
+     * stops the retries, including the wait before the next attempt
+     */
+    signal?: AbortSignal;
+    onRetry?: (retry: RetryAttempt) => Promise<void> | void;
+}
+
+interface RetryableError {
+    code?: string;
+    response?: { status: number; headers?: Record<string, unknown> };
+}
+
+function getHeader(headers: Record<string, unknown> = {}, name: string): string | undefined {
+    const value = Object.entries(headers).find(([header]) => header.toLowerCase() === name)?.[1];
+    return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * seconds until a reset, given as a delta or as a unix timestamp
+ */
+function parseResetSeconds(value: string, now: number): number | undefined {
+    const seconds = Number(value);
+    if (!Number.isFinite(seconds) || seconds < 0) {
+        return undefined;
+    }
+    return seconds > 1e9 ? Math.max(0, seconds - now / 1000) : seconds;
+}
+
+/**
+ * the reset of the combined RateLimit header, e.g. `limit=10, remaining=0, reset=30` or `"default";r=0;t=30`
+ */
+function parseRateLimitHeader(value: string): { remaining?: string; reset?: string } {
+    const fields = Object.fromEntries(value
+        .split(/[;,]/)
+        .map((field) => field.trim().split('='))
+        .filter((field) => field.length === 2)
+        .map(([name, fieldValue]) => [name.trim().toLowerCase(), fieldValue.trim()]));
+    return { remaining: fields.remaining ?? fields.r, reset: fields.reset ?? fields.t };
+}
+
+/**
+ * How long the server asks clients to wait, in ms.
+ * Retry-After takes precedence, the RateLimit reset only counts once the limit is used up.
+ */
+export function getServerRetryDelay(status: number, headers: Record<string, unknown> = {}, now = Date.now()): number | undefined {
+    const retryAfter = getHeader(headers, 'retry-after');
+    if (retryAfter !== undefined) {
+        const seconds = Number(retryAfter);
+        if (Number.isFinite(seconds) && seconds >= 0) {
+            return seconds * 1000;
+        }
+        const date = Date.parse(retryAfter);
+        if (!Number.isNaN(date)) {
+            return Math.max(0, date - now);
+        }
+    }
+
+    const combined = parseRateLimitHeader(getHeader(headers, 'ratelimit') ?? '');
+    const remaining = getHeader(headers, 'ratelimit-remaining') ?? getHeader(headers, 'x-ratelimit-remaining') ?? combined.remaining;
+    const reset = getHeader(headers, 'ratelimit-reset') ?? getHeader(headers, 'x-ratelimit-reset') ?? combined.reset;
+    if (reset !== undefined && (status === 429 || Number(remaining) === 0)) {
+        const seconds = parseResetSeconds(reset, now);
+        return seconds === undefined ? undefined : Math.ceil(seconds * 1000);
+    }
+    return undefined;
+}
+
+/**
+ * exponential backoff with full jitter
+ */
+export function getBackoffDelay(attempt: number, options: RetryOptions = {}, random = Math.random): number {
+    const { baseDelay = DEFAULT_RETRY_BASE_DELAY, maxDelay = DEFAULT_RETRY_MAX_DELAY } = options;
+    return Math.round(random() * Math.min(maxDelay, baseDelay * 2 ** (attempt - 1)));
+}
+
+/**
+ * The delay before the next attempt, undefined when the failure is not retried.
+ */
+export function getRetryDelay(
+    error: RetryableError,
+    attempt: number,
+    idempotent: boolean,
+    options: RetryOptions = {}
+): { delay: number; reason: string } | undefined {
+    const {
+        maxAttempts = DEFAULT_RETRY_MAX_ATTEMPTS,
+        maxDelay = DEFAULT_RETRY_MAX_DELAY,
+        retryableStatuses = DEFAULT_RETRYABLE_STATUSES,
+        retryNonIdempotent = false,
+    } = options;
+    if (attempt >= maxAttempts || (!idempotent && !retryNonIdempotent)) {
+        return undefined;
+    }
+
+    if (!error.response) {
+        return error.code && RETRYABLE_ERROR_CODES.includes(error.code)
+            ? { delay: getBackoffDelay(attempt, options), reason: error.code }
+            : undefined;
+    }
+
+    const { status, headers } = error.response;
+    if (!retryableStatuses.includes(status)) {
+        return undefined;
+    }
+    const serverDelay = getServerRetryDelay(status, headers);
+    if (serverDelay !== undefined && serverDelay > maxDelay) {
+        logger.warn(`Not retrying HTTP ${status}, the server asks to wait longer than the maximum delay`, { serverDelay, maxDelay });
+        return undefined;
+    }
+    return { delay: serverDelay ?? getBackoffDelay(attempt, options), reason: `HTTP ${status}` };
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Send the request until it succeeds, fails for good or runs out of attempts.
+ */
+export async function withRetries<T>(send: () => Promise<T>, context: RetryContext, options: RetryOptions = {}): Promise<T> {
+    const { idempotent, signal, onRetry } = context;
+    const maxAttempts = options.maxAttempts ?? DEFAULT_RETRY_MAX_ATTEMPTS;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await send();
+        }
+        catch (error: any) {
+            const retry = signal?.aborted ? undefined : getRetryDelay(error ?? {}, attempt, idempotent, options);
+            if (!retry) {
+                throw error;
+            }
+            await onRetry?.({ attempt, maxAttempts, ...retry });
+            await sleep(retry.delay, signal);
+        }
+    }
+}
@@ -0,0 +1,80 @@
+export const DEFAULT_TIMEOUT = 30_000;
+
+/**
+ * vendor extension with the timeout of an operation in ms, e.g. for slow report endpoints
+ */
+export const TIMEOUT_OPERATION_EXTENSION = 'x-mcp-timeout';
+
+export interface TimeoutOptions {
+    /**
+     * timeout in ms of every request, 0 disables it
+     */
+    timeout?: number;
+    /**
+     * timeouts in ms by operationId, taking precedence over the spec and the global timeout
+     */
+    operationTimeouts?: Record<string, number>;
+}
+
+interface TimedOperation {
+    operationId: string;
+    extensions?: Record<string, unknown>;
+}
+
+interface RequestError {
+    code?: string;
+    message?: string;
+}
+
+function isValidTimeout(timeout: unknown): timeout is number {
+    return typeof timeout === 'number' && Number.isInteger(timeout) && timeout >= 0;
+}
+
+/**
+ * the timeout of an operation: the configured override, then the spec extension, then the global timeout
+ */
+export function getOperationTimeout(operation: TimedOperation, options: TimeoutOptions = {}): number {
+    const override = options.operationTimeouts?.[operation.operationId];
+    if (isValidTimeout(override)) {
+        return override;
+    }
+    const extension = operation.extensions?.[TIMEOUT_OPERATION_EXTENSION];
+    if (isValidTimeout(extension)) {
+        return extension;
+    }
+    return options.timeout ?? DEFAULT_TIMEOUT;
+}
+
+/**
+ * axios reports timeouts as ECONNABORTED, or ETIMEDOUT with clarifyTimeoutError
+ */
+export function isTimeoutError(error: RequestError): boolean {
+    return error.code === 'ETIMEDOUT' || (error.code === 'ECONNABORTED' && /timeout/i.test(error.message ?? ''));
+}
+
+export function isCancellation(error: RequestError): boolean {
+    return error.code === 'ERR_CANCELED' || (error as Error).name === 'AbortError';
+}
+
+/**
+ * Runs a request attempt under an overall deadline, the axios timeout only limits socket inactivity
+ * so a server trickling bytes would hold the call forever. The deadline abort fails like an axios timeout.
+ */
+export async function withDeadline<T>(
+    timeout: number,
+    signal: AbortSignal | undefined,
+    run: (signal: AbortSignal | undefined) => Promise<T>
+): Promise<T> {
+    if (!timeout) {
+        return run(signal);
+    }
+    const deadline = AbortSignal.timeout(timeout);
+    try {
+        return await run(signal ? AbortSignal.any([signal, deadline]) : deadline);
+    } catch (error) {
+        if (deadline.aborted && !signal?.aborted) {
+            throw Object.assign(new Error(`timeout of ${timeout}ms exceeded`), { code: 'ETIMEDOUT' });
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,170 @@
+import { OpenAPIV3 } from "openapi-client-axios";
+
+export const DESCRIPTION_PLACEHOLDERS = [
+    'summary', 'description', 'deprecated', 'tags', 'parameters', 'responses', 'examples', 'method', 'path', 'operationId',
+];
+
+export const DEFAULT_DESCRIPTION_TEMPLATE = [
+    '{deprecated}',
+    '{summary}',
+    '',
+    '{description}',
+    '',
+    '{tags}',
+    '{parameters}',
+    '{responses}',
+    '{examples}',
+].join('\n');
+
+/**
+ * characters, about 250 tokens
+ */
+export const DEFAULT_MAX_DESCRIPTION_LENGTH = 1_000;
+
+const MAX_ITEM_LENGTH = 200;
+const MAX_EXAMPLE_LENGTH = 300;
+
+/**
+ * sections left out, in this order, until the description fits its budget
+ */
+const OPTIONAL_SECTIONS = ['examples', 'parameters', 'responses', 'tags'];
+
+export interface DescriptionOptions {
+    /**
+     * template of the descriptions, with the DESCRIPTION_PLACEHOLDERS in braces
+     */
+    template?: string;
+    /**
+     * characters per description, 0 disables the budget
+     */
+    maxLength?: number;
+}
+
+export interface DescribableOperation {
+    operationId: string;
+    method: string;
+    path: string;
+    summary?: string;
+    description?: string;
+    deprecated?: boolean;
+    tags?: string[];
+    parameters?: OpenAPIV3.ParameterObject[];
+    requestBody?: OpenAPIV3.RequestBodyObject;
+    responses?: OpenAPIV3.ResponsesObject;
+}
+
+/**
+ * placeholders of the template that are not supported
+ */
+export function getUnknownDescriptionPlaceholders(template: string): string[] {
+    return [...template.matchAll(/\{([^}]*)\}/g)]
+        .map(([, placeholder]) => placeholder)
+        .filter((placeholder) => !DESCRIPTION_PLACEHOLDERS.includes(placeholder));
+}
+
+function clip(text: string, maxLength: number): string {
+    const line = text.replace(/\s+/g, ' ').trim();
+    return line.length > maxLength ? `${line.slice(0, maxLength - 1)}…` : line;
+}
+
+function getParametersSection(parameters: OpenAPIV3.ParameterObject[] = [], requestBody?: OpenAPIV3.RequestBodyObject): string {
+    const lines = parameters
+        .filter((parameter) => parameter.description || parameter.deprecated)
+        .map((parameter) => {
+            const flags = [parameter.in, parameter.required && 'required', parameter.deprecated && 'deprecated'].filter(Boolean).join(', ');
+            const description = parameter.description ? `: ${clip(parameter.description, MAX_ITEM_LENGTH)}` : '';
+            return `- ${parameter.name} (${flags})${description}`;
+        });
+    if (requestBody?.description) {
+        lines.push(`- request body: ${clip(requestBody.description, MAX_ITEM_LENGTH)}`);
+    }
+    return lines.length > 0 ? ['Parameters:', ...lines].join('\n') : '';
+}
+
+function getResponsesSection(responses: OpenAPIV3.ResponsesObject = {}): string {
+    const entries = Object.entries(responses)
+        .map(([statusCode, response]) => {
+            const { description } = response as OpenAPIV3.ResponseObject;
+            return description ? `${statusCode} ${clip(description, MAX_ITEM_LENGTH)}` : statusCode;
+        });
+    return entries.length > 0 ? `Responses: ${entries.join('; ')}` : '';
+}
+
+/**
+ * the example of the JSON media type, or else of the first one
+ */
+function getMediaExample(content: Record<string, OpenAPIV3.MediaTypeObject> = {}): unknown {
+    const mediaType = Object.entries(content).find(([type]) => type.includes('json'))?.[1] ?? Object.values(content)[0];
+    if (!mediaType) {
+        return undefined;
+    }
+    const namedExample = Object.values(mediaType.examples ?? {})[0] as OpenAPIV3.ExampleObject | undefined;
+    return mediaType.example ?? namedExample?.value ?? (mediaType.schema as OpenAPIV3.SchemaObject | undefined)?.example;
+}
+
+function formatExample(example: unknown): string {
+    return clip(typeof example === 'string' ? example : JSON.stringify(example), MAX_EXAMPLE_LENGTH);
+}
+
+function getExamplesSection(requestBody?: OpenAPIV3.RequestBodyObject, responses: OpenAPIV3.ResponsesObject = {}): string {
+    const lines: string[] = [];
+    const requestExample = getMediaExample(requestBody?.content);
+    if (requestExample !== undefined) {
+        lines.push(`Example request body: ${formatExample(requestExample)}`);
+    }
+    const success = Object.entries(responses).find(([statusCode]) => statusCode.startsWith('2'))?.[1] as OpenAPIV3.ResponseObject | undefined;
+    const responseExample = getMediaExample(success?.content);
+    if (responseExample !== undefined) {
+        lines.push(`Example response: ${formatExample(responseExample)}`);
+    }
+    return lines.join('\n');
+}
+
+function render(template: string, values: Record<string, string>): string {
+    return template
+        .replace(/\{([^}]*)\}/g, (placeholder, name) => values[name] ?? placeholder)
+        .replace(/[ \t]+$/gm, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * The tool description, composed of the summary, the description and the other documentation
+ * of the operation. Operations without any text are described by their method and path.
+ * Over the budget the optional sections are left out, then the text is cut.
+ */
+export function buildToolDescription(operation: DescribableOperation, options: DescriptionOptions = {}): string {
+    const { template = DEFAULT_DESCRIPTION_TEMPLATE, maxLength = DEFAULT_MAX_DESCRIPTION_LENGTH } = options;
+    const { path = '' } = operation;
+    const method = (operation.method ?? '').toUpperCase();
+    const summary = operation.summary?.trim() ?? '';
+    const description = operation.description?.trim() ?? '';
+    const fallback = `${method} ${path}`.trim();
+
+    const values: Record<string, string> = {
+        // descriptions often repeat the summary
+        summary: summary && !description.startsWith(summary) ? summary : (description ? '' : fallback),
+        description,
+        deprecated: operation.deprecated ? 'Deprecated: this operation may be removed, avoid it when there is an alternative.' : '',
+        tags: operation.tags?.length ? `Tags: ${operation.tags.join(', ')}` : '',
+        parameters: getParametersSection(operation.parameters, operation.requestBody),
+        responses: getResponsesSection(operation.responses),
+        examples: getExamplesSection(operation.requestBody, operation.responses),
+        method,
+        path,
+        operationId: operation.operationId,
+    };
+
+    let text = render(template, values);
+    for (const section of OPTIONAL_SECTIONS) {
+        if (maxLength === 0 || text.length <= maxLength) {
+            break;
+        }
+        values[section] = '';
+        text = render(template, values);
+    }
+    if (maxLength > 0 && text.length > maxLength) {
+        text = `${text.slice(0, maxLength - 1).trimEnd()}…`;
+    }
+    return text || fallback;
+}
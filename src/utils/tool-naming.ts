@@ -0,0 +1,118 @@
+import { createHash } from "node:crypto";
+import logger from "./logger";
+
+/**
+ * How tool names are derived from operations:
+ * - operationId: the operationId, method_path for operations without one
+ * - method_path: the method and the path, e.g. `get_pets_petId`
+ * - tag_prefixed: the first tag and the operationId, e.g. `pets_getPet`
+ * - template: a custom template like `{tag}_{method}_{operationId}`
+ */
+export type ToolNamingStrategy = 'operationId' | 'method_path' | 'tag_prefixed' | 'template';
+
+export const TOOL_NAMING_STRATEGIES: ToolNamingStrategy[] = ['operationId', 'method_path', 'tag_prefixed', 'template'];
+export const TEMPLATE_PLACEHOLDERS = ['operationId', 'method', 'path', 'tag'];
+
+/**
+ * the longest tool name clients accept, names may only contain letters, digits, `_` and `-`
+ */
+export const MAX_TOOL_NAME_LENGTH = 64;
+
+const HASH_LENGTH = 8;
+
+export interface ToolNamingOptions {
+    strategy?: ToolNamingStrategy;
+    template?: string;
+    /**
+     * prefix of every tool name, keeps the tools of several APIs apart
+     */
+    namespace?: string;
+}
+
+export interface NameableOperation {
+    operationId?: string;
+    method: string;
+    path: string;
+    tags?: string[];
+}
+
+/**
+ * Replace the characters tool names may not contain. Names over the length limit
+ * are cut and end with a hash of the full name, so that they stay unique.
+ */
+export function sanitizeToolName(name: string): string {
+    const sanitized = name.replace(/[^a-zA-Z0-9_-]+/g, '_').replace(/^[_-]+|[_-]+$/g, '') || 'tool';
+    if (sanitized.length <= MAX_TOOL_NAME_LENGTH) {
+        return sanitized;
+    }
+    const hash = createHash('sha256').update(name).digest('hex').slice(0, HASH_LENGTH);
+    return `${sanitized.slice(0, MAX_TOOL_NAME_LENGTH - HASH_LENGTH - 1).replace(/[_-]+$/, '')}_${hash}`;
+}
+
+/**
+ * the name of operations without an operationId, stable as long as the method and path are
+ */
+export function getMethodPathName(method: string, path: string): string {
+    return sanitizeToolName(`${method.toLowerCase()}_${path.replace(/^\/+/, '')}`);
+}
+
+/**
+ * placeholders of the template that are not supported
+ */
+export function getUnknownPlaceholders(template: string): string[] {
+    return [...template.matchAll(/\{([^}]*)\}/g)]
+        .map(([, placeholder]) => placeholder)
+        .filter((placeholder) => !TEMPLATE_PLACEHOLDERS.includes(placeholder));
+}
+
+function getBaseName(operation: NameableOperation, options: ToolNamingOptions): string {
+    const { strategy = 'operationId', template = '' } = options;
+    const methodPath = getMethodPathName(operation.method, operation.path);
+    const operationId = operation.operationId || methodPath;
+    const tag = operation.tags?.[0];
+    switch (strategy) {
+        case 'method_path':
+            return methodPath;
+        case 'tag_prefixed':
+            return tag ? `${tag}_${operationId}` : operationId;
+        case 'template': {
+            const values: Record<string, string> = { operationId, method: operation.method.toLowerCase(), path: operation.path, tag: tag ?? '' };
+            return template.replace(/\{([^}]*)\}/g, (_, placeholder) => values[placeholder] ?? '');
+        }
+        default:
+            return operationId;
+    }
+}
+
+function withSuffix(name: string, suffix: string) {
+    return `${name.slice(0, MAX_TOOL_NAME_LENGTH - suffix.length)}${suffix}`;
+}
+
+/**
+ * The tool name of every operation, in the order of the operations.
+ * Operations sharing a name are ordered by path and method, the first one keeps the name
+ * and the others get a numeric suffix, so the names do not depend on the order of the spec.
+ */
+export function getToolNames(operations: NameableOperation[], options: ToolNamingOptions = {}): string[] {
+    const prefix = options.namespace ? `${options.namespace}_` : '';
+    const names = operations.map((operation) => sanitizeToolName(`${prefix}${getBaseName(operation, options)}`));
+
+    const groups = new Map<string, number[]>();
+    names.forEach((name, index) => groups.set(name, [...(groups.get(name) ?? []), index]));
+    const taken = new Set(names);
+    const sortKey = (index: number) => `${operations[index].path} ${operations[index].method.toLowerCase()}`;
+
+    for (const name of [...groups.keys()].sort()) {
+        const [, ...duplicates] = (groups.get(name) as number[]).sort((a, b) => sortKey(a).localeCompare(sortKey(b)) || a - b);
+        let counter = 2;
+        for (const index of duplicates) {
+            while (taken.has(withSuffix(name, `_${counter}`))) {
+                counter++;
+            }
+            names[index] = withSuffix(name, `_${counter}`);
+            taken.add(names[index]);
+            logger.warn(`Tool name ${name} is used by several operations, naming ${operations[index].method.toUpperCase()} ${operations[index].path} ${names[index]}`);
+        }
+    }
+    return names;
+}
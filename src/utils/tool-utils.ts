@@ -1,26 +1,195 @@
 
 import { OpenAPIV3 } from "openapi-client-axios";
+import { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { ZodRawShape } from "zod";
 import logger from "./logger";
-import { openAPISchemaToZod } from "./json-shchema-to-zod";
+import { openAPISchemaToZod, optionalSchema, SchemaConversionOptions } from "./json-shchema-to-zod";
+import { isSafeOperation, SAFE_METHODS } from "./read-only";
+import { DRY_RUN_ARGUMENT } from "./dry-run";
+import { FIELDS_ARGUMENT } from "./response-budget";
+import { CONTINUATION_ARGUMENT } from "./pagination";
+
+const JSON_CONTENT_TYPE_PATTERN = /^application\/([\w.-]+\+)?json\b/i;
+
+const SUCCESS_STATUS_PATTERN = /^2(\d\d|XX)$/i;
+
+/**
+ * structured output is always an object, the response body is nested under this key
+ */
+export const OUTPUT_DATA_KEY = 'data';
+
+/**
+ * arguments the server adds to every tool (or to paginated ones), body properties may not take their names
+ */
+const RESERVED_ARGUMENTS = [DRY_RUN_ARGUMENT, FIELDS_ARGUMENT, CONTINUATION_ARGUMENT];
+
+/**
+ * The reserved arguments a tool can offer: a path/query/header parameter keeps its name
+ * (like the `_fields` of the WordPress API) and the tool goes without that reserved argument.
+ */
+export function getReservedArguments(params: OpenAPIV3.ParameterObject[] = []): string[] {
+    return RESERVED_ARGUMENTS.filter((name) => !params.some((param) => param.name === name));
+}
+
+const IDEMPOTENT_METHODS = [...SAFE_METHODS, 'put', 'delete'];
+const DESTRUCTIVE_METHODS = ['put', 'patch', 'delete'];
+const ANNOTATION_HINTS = ['readOnlyHint', 'destructiveHint', 'idempotentHint', 'openWorldHint'] as const;
+
+export interface RequestBodyMapping {
+    contentType: string;
+    schema: OpenAPIV3.SchemaObject;
+    required: boolean;
+    /**
+     * the argument holding the whole body,
+     * undefined when the body properties are flattened into the tool arguments
+     */
+    argumentName?: string;
+}
+
+export interface ResponseSchemaMapping {
+    statusCode: string;
+    contentType: string;
+    schema: OpenAPIV3.SchemaObject;
+    /**
+     * another success response has no JSON body, so the data may be missing
+     */
+    optional: boolean;
+}
+
+function getPreferredContentType(contentTypes: string[]) {
+    return contentTypes.find((type) => type.toLowerCase() === 'application/json')
+        ?? contentTypes.find((type) => JSON_CONTENT_TYPE_PATTERN.test(type));
+}
+
+/**
+ * Decide how an OpenAPI 3 requestBody is exposed as tool arguments.
+ * The JSON content type is preferred, then any other `+json` type, then the first one declared.
+ *
+ * Object bodies are flattened, so each body property becomes a tool argument of its own.
+ * When a body property has the same name as a path/query/header parameter or a reserved argument
+ * like `_dryRun` (or the body is not a plain object) the whole body is nested under a single `body` argument
+ * (`requestBody` if a parameter is already named `body`), so no argument is ever shadowed.
+ */
+export function getRequestBodyMapping(
+    requestBody?: OpenAPIV3.RequestBodyObject,
+    params: OpenAPIV3.ParameterObject[] = []
+): RequestBodyMapping | undefined {
+    const contentTypes = Object.keys(requestBody?.content ?? {});
+    if (!requestBody || contentTypes.length === 0) {
+        return undefined;
+    }
+
+    const contentType = getPreferredContentType(contentTypes) ?? contentTypes[0];
+    const schema = {
+        description: requestBody.description,
+        ...(requestBody.content[contentType].schema ?? {}),
+    } as OpenAPIV3.SchemaObject;
+    const required = requestBody.required ?? false;
+
+    const paramNames = params.map((param) => param.name);
+    const takenNames = [...paramNames, ...RESERVED_ARGUMENTS];
+    const propertyNames = Object.keys(schema.properties ?? {});
+    const canFlatten = schema.type === 'object'
+        && propertyNames.length > 0
+        && !propertyNames.some((name) => takenNames.includes(name));
+    if (canFlatten) {
+        return { contentType, schema, required };
+    }
+
+    const argumentName = paramNames.includes('body') ? 'requestBody' : 'body';
+    return { contentType, schema, required, argumentName };
+}
+
+/**
+ * Pick the success response that describes the tool output:
+ * 200 first, then the lowest other 2xx status, then the `2XX` range.
+ * Only JSON responses with a schema can be advertised as structured output.
+ */
+export function getResponseSchemaMapping(responses: OpenAPIV3.ResponsesObject = {}): ResponseSchemaMapping | undefined {
+    const successResponses = Object.entries(responses)
+        .filter(([statusCode]) => SUCCESS_STATUS_PATTERN.test(statusCode))
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([statusCode, response]) => {
+            // the definition is dereferenced by the client, so no $ref is left here
+            const content = (response as OpenAPIV3.ResponseObject).content ?? {};
+            const contentType = getPreferredContentType(Object.keys(content));
+            const schema = contentType ? content[contentType].schema as OpenAPIV3.SchemaObject | undefined : undefined;
+            return { statusCode, contentType, schema };
+        });
+
+    const documented = successResponses.find((response) => response.contentType && response.schema);
+    if (!documented?.contentType || !documented.schema) {
+        return undefined;
+    }
+    return {
+        statusCode: documented.statusCode,
+        contentType: documented.contentType,
+        schema: documented.schema,
+        optional: successResponses.some((response) => !response.schema),
+    };
+}
+
+/**
+ * the tool output schema, the response body is nested under OUTPUT_DATA_KEY
+ * since structured content has to be an object while a body can be anything
+ */
+export function responsesToOutputSchema(
+    responses?: OpenAPIV3.ResponsesObject,
+    schemaOptions: SchemaConversionOptions = {}
+): ZodRawShape | undefined {
+    const mapping = getResponseSchemaMapping(responses);
+    if (!mapping) {
+        logger.debug('No JSON success response schema, skipping output schema');
+        return undefined;
+    }
+
+    logger.debug('Converting response schema to output schema', { statusCode: mapping.statusCode, contentType: mapping.contentType });
+    // APIs commonly return more fields than documented, those should not fail the output validation
+    const zodSchema = openAPISchemaToZod(mapping.schema, { ...schemaOptions, passthroughObjects: true });
+    return { [OUTPUT_DATA_KEY]: mapping.optional ? zodSchema.optional() : zodSchema };
+}
 
 /**
  * params includes all parameters from the OpenAPI spec
  * like path, query, header and body
  * a param can either be a schema or have a schema property
  */
-export function parametersArrayToUnifiedSchema(params: OpenAPIV3.ParameterObject[] = []) {
+export function parametersArrayToUnifiedSchema(
+    params: OpenAPIV3.ParameterObject[] = [],
+    requestBody?: OpenAPIV3.RequestBodyObject,
+    schemaOptions: SchemaConversionOptions = {}
+) {
     logger.debug('Converting OpenAPI parameters to unified schema', { paramCount: params?.length });
     // schema used for too needs to not be an actuals schema but a map of zod schemas
     const schema: any = {};
 
     for (const param of params) {
-        const zodSchema = openAPISchemaToZod(param.schema || param as any)
+        const zodSchema = openAPISchemaToZod(param.schema || param as any, schemaOptions)
         schema[param.name] = param.schema;
         if (param.required) {
             schema[param.name] = zodSchema
         }
         else {
-            schema[param.name] = zodSchema.optional();
+            schema[param.name] = optionalSchema(zodSchema);
+        }
+    }
+
+    const bodyMapping = getRequestBodyMapping(requestBody, params);
+    if (bodyMapping?.argumentName) {
+        const zodSchema = openAPISchemaToZod(bodyMapping.schema, schemaOptions);
+        schema[bodyMapping.argumentName] = bodyMapping.required ? zodSchema : optionalSchema(zodSchema);
+    }
+    else if (bodyMapping) {
+        const { properties = {}, required = [] } = bodyMapping.schema;
+        for (const [name, propertySchema] of Object.entries(properties)) {
+            const zodSchema = openAPISchemaToZod(propertySchema as OpenAPIV3.SchemaObject, schemaOptions);
+            const isRequired = bodyMapping.required && required.includes(name);
+            if (isRequired) {
+                schema[name] = zodSchema;
+            } else {
+                // defaults of an optional body would send a body the caller left out
+                schema[name] = bodyMapping.required ? optionalSchema(zodSchema) : zodSchema.optional();
+            }
         }
     }
 
@@ -31,7 +200,11 @@ export function parametersArrayToUnifiedSchema(params: OpenAPIV3.ParameterObject
     return schema;
 }
 
-export function unifiedArgumentsToParametersArray(args: Record<string, any>, params: OpenAPIV3.ParameterObject[] = []) {
+export function unifiedArgumentsToParametersArray(
+    args: Record<string, any>,
+    params: OpenAPIV3.ParameterObject[] = [],
+    requestBody?: OpenAPIV3.RequestBodyObject
+) {
     logger.debug('Converting unified arguments to OpenAPI parameters', { 
         argCount: Object.keys(args).length, 
         paramCount: params.length 
@@ -64,6 +237,20 @@ export function unifiedArgumentsToParametersArray(args: Record<string, any>, par
         }
     }
 
+    const bodyMapping = getRequestBodyMapping(requestBody, params);
+    if (bodyMapping?.argumentName && args[bodyMapping.argumentName] !== undefined) {
+        logger.debug(`Setting request body from argument ${bodyMapping.argumentName}`);
+        bodyParam = args[bodyMapping.argumentName];
+    }
+    else if (bodyMapping && !bodyMapping.argumentName) {
+        const propertyNames = Object.keys(bodyMapping.schema.properties ?? {});
+        const providedNames = propertyNames.filter((name) => args[name] !== undefined);
+        if (providedNames.length > 0) {
+            logger.debug('Setting request body from flattened arguments', { properties: providedNames });
+            bodyParam = Object.fromEntries(providedNames.map((name) => [name, args[name]]));
+        }
+    }
+
     logger.debug('Arguments converted', { 
         otherParamCount: Object.keys(otherParams).length,
         hasBodyParam: bodyParam !== undefined
@@ -73,5 +260,52 @@ export function unifiedArgumentsToParametersArray(args: Record<string, any>, par
     return {
         params: otherParams,
         body: bodyParam,
+        contentType: bodyParam !== undefined ? bodyMapping?.contentType : undefined,
     };
-}
\ No newline at end of file
+}
+
+/**
+ * Derive MCP tool annotations from the HTTP method and the operation summary.
+ * GET/HEAD/OPTIONS (and operations marked `x-mcp-safe`) are read-only, PUT/PATCH/DELETE overwrite or remove data so they are
+ * destructive, PUT and DELETE are idempotent, and every operation reaches out to the API so it is open-world.
+ * POST may create or change anything, its destructiveHint is left unset so clients assume the worst.
+ *
+ * `x-mcp-title` and `x-mcp-<hint>` (e.g. `x-mcp-destructiveHint: true`) on the operation take precedence.
+ */
+export function getToolAnnotations(
+    method = '',
+    summary?: string,
+    extensions: Record<string, unknown> = {}
+): ToolAnnotations {
+    const normalizedMethod = method.toLowerCase();
+    const annotations: ToolAnnotations = {
+        readOnlyHint: isSafeOperation(normalizedMethod, extensions),
+        ...(DESTRUCTIVE_METHODS.includes(normalizedMethod) ? { destructiveHint: true } : {}),
+        idempotentHint: IDEMPOTENT_METHODS.includes(normalizedMethod),
+        openWorldHint: true,
+    };
+
+    const title = extensions['x-mcp-title'] ?? summary;
+    if (typeof title === 'string' && title.trim()) {
+        annotations.title = title.trim();
+    }
+
+    for (const hint of ANNOTATION_HINTS) {
+        const override = extensions[`x-mcp-${hint}`];
+        if (override === undefined) {
+            continue;
+        }
+        if (typeof override !== 'boolean') {
+            logger.warn(`Ignoring non-boolean x-mcp-${hint} extension`, { value: override });
+            continue;
+        }
+        annotations[hint] = override;
+    }
+
+    // a read-only tool cannot be destructive, unless the spec says so explicitly
+    if (annotations.readOnlyHint && extensions['x-mcp-destructiveHint'] === undefined) {
+        annotations.destructiveHint = false;
+    }
+    logger.debug('Derived tool annotations', { method: normalizedMethod, annotations });
+    return annotations;
+}
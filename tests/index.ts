@@ -7,6 +7,23 @@
 import './src/operations/auth-operations.test';
 import './src/operations/openapi-operations.test';
 import './src/operations/smp-operations.test';
+import './src/utils/confirmation.test';
+import './src/utils/convert-swagger2.test';
+import './src/utils/dns-rebinding.test';
+import './src/utils/dry-run.test';
+import './src/utils/error-response.test';
 import './src/utils/json-schema-to-zod.test';
 import './src/utils/load-openapi-definition.test';
+import './src/utils/normalize-openapi-definition.test';
+import './src/utils/operation-filter.test';
+import './src/utils/pagination.test';
+import './src/utils/rate-limit.test';
+import './src/utils/read-only.test';
+import './src/utils/response-budget.test';
+import './src/utils/response-content.test';
+import './src/utils/result-envelope.test';
+import './src/utils/retry.test';
+import './src/utils/timeout.test';
+import './src/utils/tool-description.test';
+import './src/utils/tool-naming.test';
 import './src/utils/tool-utils.test';
\ No newline at end of file
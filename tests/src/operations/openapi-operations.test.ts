@@ -2,7 +2,10 @@ import { describe, it, beforeEach, afterEach } from 'node:test';
 import { strict as assert } from 'node:assert';
 import * as sinon from 'sinon';
 
+import * as fs from 'fs';
+import * as path from 'path';
 import { getOperations } from '../../../src/operations/openapi-operations';
+import { parametersArrayToUnifiedSchema } from '../../../src/utils/tool-utils';
 import logger from '../../../src/utils/logger';
 
 describe('OpenAPI Operations', () => {
@@ -25,7 +28,7 @@ describe('OpenAPI Operations', () => {
         it('should extract operations from client', () => {
             // Prepare mock operations
             const mockOperations = [
-                { operationId: 'op1', path: '/path1', method: 'get', parameters: [], description: 'Test op 1' }
+                { operationId: 'op1', path: '/path1', method: 'get', parameters: [], description: 'Test op 1', summary: 'Op 1', 'x-mcp-readOnlyHint': false }
             ];
             
             // Prepare mock client with minimal required properties
@@ -42,10 +45,14 @@ describe('OpenAPI Operations', () => {
             // Verify results
             assert.strictEqual(operations.length, 1);
             assert.strictEqual(operations[0].operationId, 'op1');
+            assert.strictEqual(operations[0].method, 'get');
+            assert.strictEqual(operations[0].path, '/path1');
+            assert.strictEqual(operations[0].summary, 'Op 1');
+            assert.deepEqual(operations[0].extensions, { 'x-mcp-readOnlyHint': false });
             assert.strictEqual(typeof operations[0].callback, 'function');
         });
         
-        it('should generate operationId from description if not provided', () => {
+        it('should not derive the operationId from the description', () => {
             // Prepare mock operations with missing operationId
             const mockOperations = [
                 { path: '/path1', method: 'get', parameters: [], description: 'Test operation with spaces & symbols!' }
@@ -62,11 +69,12 @@ describe('OpenAPI Operations', () => {
             
             // Verify results
             assert.strictEqual(operations.length, 1);
-            assert.strictEqual(operations[0].operationId, 'Test_operation_with_spaces___symbols_');
+            assert.strictEqual(operations[0].operationId, 'get_path1');
+            assert.strictEqual(operations[0].toolName, 'get_path1');
             assert.strictEqual(typeof operations[0].callback, 'function');
         });
 
-        it('should generate operationId from method and path if neither id nor description provided', () => {
+        it('should generate operationId from method and path if not provided', () => {
             // Prepare mock operations with missing operationId and description
             const mockOperations = [
                 { path: '/test/resource/123', method: 'post', parameters: [] }
@@ -83,10 +91,73 @@ describe('OpenAPI Operations', () => {
             
             // Verify results
             assert.strictEqual(operations.length, 1);
-            assert.strictEqual(operations[0].operationId, 'post__test_resource_123');
+            assert.strictEqual(operations[0].operationId, 'post_test_resource_123');
             assert.strictEqual(typeof operations[0].callback, 'function');
         });
 
+        it('should pass the requestBody through to the operation entry', () => {
+            const requestBody = {
+                required: true,
+                content: { 'application/json': { schema: { type: 'object', properties: { name: { type: 'string' } } } } }
+            };
+            const mockOperations = [
+                { operationId: 'createPet', path: '/pets', method: 'post', parameters: [], requestBody }
+            ];
+            
+            const mockClient = {
+                api: { getOperations: sinon.stub().returns(mockOperations) },
+                paths: { '/pets': { post: sinon.stub() } }
+            };
+            
+            const operations = getOperations(mockClient as any);
+            
+            assert.deepStrictEqual(operations[0].requestBody, requestBody);
+        });
+
+        it('should apply operation filters', () => {
+            const mockOperations = [
+                { operationId: 'listPets', path: '/pets', method: 'get', parameters: [], tags: ['pets'] },
+                { operationId: 'deletePet', path: '/pets/{id}', method: 'delete', parameters: [], tags: ['pets'] },
+                { operationId: 'listUsers', path: '/admin/users', method: 'get', parameters: [] }
+            ];
+            const mockClient = {
+                api: { getOperations: sinon.stub().returns(mockOperations) },
+                paths: {
+                    '/pets': { get: sinon.stub() },
+                    '/pets/{id}': { delete: sinon.stub() },
+                    '/admin/users': { get: sinon.stub() }
+                }
+            };
+            
+            const operations = getOperations(mockClient as any, { includePaths: ['/pets/**', '/pets'], excludeMethods: ['delete'] });
+            
+            assert.deepEqual(operations.map((operation) => operation.operationId), ['listPets']);
+            assert.deepEqual(operations[0].tags, ['pets']);
+        });
+        
+        it('should name the tools of the filtered operations with the naming options', () => {
+            const mockOperations = [
+                { operationId: 'list', path: '/pets', method: 'get', parameters: [], tags: ['pets'] },
+                { operationId: 'list', path: '/owners', method: 'get', parameters: [], tags: ['owners'] },
+                { operationId: 'list', path: '/admin/users', method: 'get', parameters: [] }
+            ];
+            const mockClient = {
+                api: { getOperations: sinon.stub().returns(mockOperations) },
+                paths: {
+                    '/pets': { get: sinon.stub() },
+                    '/owners': { get: sinon.stub() },
+                    '/admin/users': { get: sinon.stub() }
+                }
+            };
+
+            const tagged = getOperations(mockClient as any, { excludePaths: ['/admin/**'] }, { strategy: 'tag_prefixed', namespace: 'petstore' });
+            assert.deepEqual(tagged.map((operation) => operation.toolName), ['petstore_pets_list', 'petstore_owners_list']);
+            assert.deepEqual(tagged.map((operation) => operation.operationId), ['list', 'list']);
+
+            const plain = getOperations(mockClient as any);
+            assert.deepEqual(plain.map((operation) => operation.toolName), ['list_3', 'list_2', 'list']);
+        });
+        
         it('should handle errors from OpenAPI client', () => {
             // Setup error case
             const mockClient = {
@@ -120,5 +191,232 @@ describe('OpenAPI Operations', () => {
             );
         });
 
+        it('should expose Swagger 2.0 operations with the base URL from the spec', async () => {
+            const { getOpenApiClient } = await import('../../../src/operations/openapi-operations');
+            const tempFilePath = path.join(__dirname, 'temp-test-swagger-2.json');
+            const definition = {
+                swagger: '2.0',
+                info: { title: 'Test 2.0 API', version: '1.0.0' },
+                host: 'api.example.com',
+                basePath: '/v2',
+                schemes: ['https'],
+                paths: {
+                    '/pets': {
+                        post: {
+                            operationId: 'createPet',
+                            parameters: [
+                                { name: 'dryRun', in: 'query', type: 'boolean' },
+                                { name: 'pet', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } }
+                            ],
+                            responses: { '201': { description: 'created' } }
+                        }
+                    }
+                },
+                definitions: {
+                    Pet: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } }
+                }
+            };
+
+            try {
+                fs.writeFileSync(tempFilePath, JSON.stringify(definition));
+
+                const client = await getOpenApiClient(tempFilePath);
+                assert.strictEqual(client.defaults.baseURL, 'https://api.example.com/v2');
+
+                const [operation] = getOperations(client);
+                assert.strictEqual(operation.operationId, 'createPet');
+                assert.deepEqual(Object.keys(operation.requestBody?.content ?? {}), ['application/json']);
+
+                const schema = parametersArrayToUnifiedSchema(operation.parameters, operation.requestBody);
+                assert.doesNotThrow(() => schema.dryRun.parse(true));
+                assert.doesNotThrow(() => schema.name.parse('Rex'));
+
+                const request = operation.resolveRequest([{ name: 'dryRun', in: 'query', value: true }], { name: 'Rex' });
+                assert.strictEqual(request.method, 'POST');
+                assert.strictEqual(request.url, 'https://api.example.com/v2/pets?dryRun=true');
+                assert.deepEqual(request.data, { name: 'Rex' });
+            } finally {
+                if (fs.existsSync(tempFilePath)) {
+                    fs.unlinkSync(tempFilePath);
+                }
+            }
+        });
+
+        it('should resolve requests with the configured header values as secrets', async () => {
+            const { getOpenApiClient } = await import('../../../src/operations/openapi-operations');
+            const tempFilePath = path.join(__dirname, 'temp-test-secrets.json');
+
+            try {
+                fs.writeFileSync(tempFilePath, JSON.stringify({
+                    openapi: '3.0.3',
+                    info: { title: 'Test', version: '1.0.0' },
+                    paths: { '/pets': { get: { operationId: 'listPets', responses: { '200': { description: 'ok' } } } } }
+                }));
+
+                const client = await getOpenApiClient(tempFilePath, 'https://api.example.com', { 'X-Tenant': 'acme-7f3a' });
+                const [operation] = getOperations(client);
+                const request = operation.resolveRequest();
+
+                assert.strictEqual(request.headers['X-Tenant'], 'acme-7f3a');
+                assert.deepEqual(request.secrets, ['acme-7f3a']);
+            } finally {
+                if (fs.existsSync(tempFilePath)) {
+                    fs.unlinkSync(tempFilePath);
+                }
+            }
+        });
+
+        it('should substitute the defaults of server URL variables', async () => {
+            const { getOpenApiClient } = await import('../../../src/operations/openapi-operations');
+            const tempFilePath = path.join(__dirname, 'temp-test-server-variables.json');
+
+            try {
+                fs.writeFileSync(tempFilePath, JSON.stringify({
+                    openapi: '3.0.3',
+                    info: { title: 'Test', version: '1.0.0' },
+                    servers: [
+                        { url: 'https://{tenant}.api.example.com', variables: { tenant: { description: 'no default' } } },
+                        {
+                            url: 'https://{region}.api.example.com/{version}',
+                            variables: { region: { default: 'eu', enum: ['eu', 'us'] }, version: { default: 'v1' } }
+                        }
+                    ],
+                    paths: {}
+                }));
+
+                const client = await getOpenApiClient(tempFilePath);
+                assert.strictEqual(client.defaults.baseURL, 'https://eu.api.example.com/v1');
+            } finally {
+                if (fs.existsSync(tempFilePath)) {
+                    fs.unlinkSync(tempFilePath);
+                }
+            }
+        });
+
+        it('should not let path or operation servers override an explicit base URL', async () => {
+            const { getOpenApiClient } = await import('../../../src/operations/openapi-operations');
+            const tempFilePath = path.join(__dirname, 'temp-test-operation-servers.json');
+
+            try {
+                fs.writeFileSync(tempFilePath, JSON.stringify({
+                    openapi: '3.0.3',
+                    info: { title: 'Test', version: '1.0.0' },
+                    servers: [{ url: 'https://api.example.com' }],
+                    paths: {
+                        '/pets': {
+                            servers: [{ url: 'https://pets.example.com' }],
+                            get: { operationId: 'listPets', responses: {} }
+                        },
+                        '/orders': {
+                            get: { operationId: 'listOrders', servers: [{ url: 'http://api.example.com' }], responses: {} }
+                        }
+                    }
+                }));
+
+                const fromSpec = await getOpenApiClient(tempFilePath);
+                const overridden = await getOpenApiClient(tempFilePath, 'https://staging.example.com');
+
+                assert.strictEqual(fromSpec.api.getAxiosConfigForOperation('listOrders', []).baseURL, 'http://api.example.com');
+                assert.strictEqual(overridden.api.getAxiosConfigForOperation('listPets', []).baseURL, undefined);
+                assert.strictEqual(overridden.api.getAxiosConfigForOperation('listOrders', []).baseURL, undefined);
+                assert.strictEqual(overridden.defaults.baseURL, 'https://staging.example.com');
+            } finally {
+                if (fs.existsSync(tempFilePath)) {
+                    fs.unlinkSync(tempFilePath);
+                }
+            }
+        });
+
+        it('should require a base URL when the spec has no absolute server', async () => {
+            const { getOpenApiClient } = await import('../../../src/operations/openapi-operations');
+            const tempFilePath = path.join(__dirname, 'temp-test-no-server.json');
+
+            try {
+                fs.writeFileSync(tempFilePath, JSON.stringify({
+                    openapi: '3.0.3',
+                    info: { title: 'Test', version: '1.0.0' },
+                    servers: [{ url: '/api' }],
+                    paths: {}
+                }));
+
+                await assert.rejects(
+                    async () => getOpenApiClient(tempFilePath),
+                    /Base URL is required/
+                );
+            } finally {
+                if (fs.existsSync(tempFilePath)) {
+                    fs.unlinkSync(tempFilePath);
+                }
+            }
+        });
+
+        it('should expose OpenAPI 3.1 operations as tools', async () => {
+            const { getOpenApiClient } = await import('../../../src/operations/openapi-operations');
+            const tempFilePath = path.join(__dirname, 'temp-test-openapi-31.json');
+            const definition = {
+                openapi: '3.1.0',
+                info: { title: 'Test 3.1 API', version: '1.0.0' },
+                paths: {
+                    '/orders/{id}': {
+                        put: {
+                            operationId: 'updateOrder',
+                            parameters: [
+                                { name: 'id', in: 'path', required: true, schema: { type: 'integer', exclusiveMinimum: 0 } },
+                                { name: 'note', in: 'query', schema: { type: ['string', 'null'], examples: ['gift'] } }
+                            ],
+                            requestBody: {
+                                required: true,
+                                content: { 'application/json': { schema: { $ref: '#/components/schemas/Order' } } }
+                            },
+                            responses: { '200': { description: 'ok' } }
+                        }
+                    }
+                },
+                webhooks: {
+                    orderShipped: { post: { responses: { '200': { description: 'ok' } } } }
+                },
+                components: {
+                    schemas: {
+                        Order: {
+                            type: 'object',
+                            required: ['version', 'lines'],
+                            properties: {
+                                version: { const: 2 },
+                                lines: { type: 'array', items: { $ref: '#/$defs/Line' } },
+                                location: { type: 'array', prefixItems: [{ type: 'number' }, { type: 'number' }], items: false }
+                            },
+                            $defs: {
+                                Line: { type: 'object', required: ['sku'], properties: { sku: { type: 'string' } } }
+                            }
+                        }
+                    }
+                }
+            };
+
+            try {
+                fs.writeFileSync(tempFilePath, JSON.stringify(definition));
+
+                const client = await getOpenApiClient(tempFilePath, 'https://api.example.com');
+                const operations = getOperations(client);
+
+                // Webhooks are not exposed as operations
+                assert.strictEqual(operations.length, 1);
+                const [operation] = operations;
+                assert.strictEqual(operation.operationId, 'updateOrder');
+
+                const schema = parametersArrayToUnifiedSchema(operation.parameters, operation.requestBody);
+                assert.doesNotThrow(() => schema.id.parse(1));
+                assert.throws(() => schema.id.parse(0));
+                assert.equal(schema.note.parse(null), null);
+                assert.doesNotThrow(() => schema.lines.parse([{ sku: 'A-1' }]));
+                assert.throws(() => schema.lines.parse([{}]));
+                assert.throws(() => schema.version.parse(1));
+                assert.doesNotThrow(() => schema.location.parse([1.5, 2]));
+            } finally {
+                if (fs.existsSync(tempFilePath)) {
+                    fs.unlinkSync(tempFilePath);
+                }
+            }
+        });
     });
-});
\ No newline at end of file
+});
@@ -4,8 +4,12 @@ import * as sinon from 'sinon';
 import * as mcpModule from '@modelcontextprotocol/sdk/server/mcp.js';
 import * as stdioModule from '@modelcontextprotocol/sdk/server/stdio.js';
 
-import { createMcpServer, setupServerTools, configureStdioServer } from '../../../src/operations/smp-operations';
+import { request } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { z } from 'zod';
+import { createMcpServer, setupServerTools, configureStdioServer, configureHttpServer } from '../../../src/operations/smp-operations';
 import logger from '../../../src/utils/logger';
+import { encodeContinuation } from '../../../src/utils/pagination';
 
 describe('SMP Operations', () => {
     let sandbox: sinon.SinonSandbox;
@@ -50,7 +54,7 @@ describe('SMP Operations', () => {
         it('should register tools for each operation', () => {
             // Create mock server and operations
             const mockServer = {
-                tool: sinon.stub().returns({ name: 'mock-tool' })
+                registerTool: sinon.stub().returns({ name: 'mock-tool' })
             };
             
             const operations = [
@@ -72,18 +76,83 @@ describe('SMP Operations', () => {
             setupServerTools(mockServer as any, operations as any);
             
             // Verify tools were created
-            assert.equal(mockServer.tool.callCount, 2);
-            assert.equal(mockServer.tool.getCall(0).args[0], 'op1');
-            assert.equal(mockServer.tool.getCall(0).args[1], 'Operation 1');
-            assert.equal(mockServer.tool.getCall(1).args[0], 'op2');
-            assert.equal(mockServer.tool.getCall(1).args[1], 'Operation 2');
+            assert.equal(mockServer.registerTool.callCount, 2);
+            assert.equal(mockServer.registerTool.getCall(0).args[0], 'op1');
+            assert.equal(mockServer.registerTool.getCall(0).args[1].description, 'Operation 1');
+            assert.equal(mockServer.registerTool.getCall(1).args[0], 'op2');
+            assert.equal(mockServer.registerTool.getCall(1).args[1].description, 'Operation 2');
+        });
+
+        it('should register descriptions built from the operation documentation', () => {
+            const mockServer = {
+                registerTool: sinon.stub().returns({ name: 'mock-tool' })
+            };
+
+            const operations = [
+                {
+                    operationId: 'getPet',
+                    method: 'get',
+                    path: '/pets/{petId}',
+                    summary: 'Get a pet',
+                    tags: ['pets'],
+                    parameters: [{ name: 'petId', in: 'path', required: true, description: 'The id of the pet' }],
+                    responses: { '200': { description: 'The pet' }, '404': { description: 'No such pet' } },
+                    callback: async () => ({ data: {} })
+                },
+                {
+                    operationId: 'ping',
+                    method: 'get',
+                    path: '/ping',
+                    parameters: [],
+                    callback: async () => ({ data: {} })
+                }
+            ];
+
+            setupServerTools(mockServer as any, operations as any, { descriptions: { template: '{summary} [{tags}]\n{parameters}\n{responses}' } });
+
+            assert.equal(mockServer.registerTool.getCall(0).args[1].description, [
+                'Get a pet [Tags: pets]',
+                'Parameters:',
+                '- petId (path, required): The id of the pet',
+                'Responses: 200 The pet; 404 No such pet',
+            ].join('\n'));
+            assert.equal(mockServer.registerTool.getCall(1).args[1].description, 'GET /ping []');
+        });
+
+        it('should register tool annotations derived from the operation', () => {
+            const mockServer = {
+                registerTool: sinon.stub().returns({ name: 'mock-tool' })
+            };
+            
+            const operations = [{
+                operationId: 'deletePet',
+                description: 'Delete a pet',
+                summary: 'Delete pet',
+                method: 'delete',
+                path: '/pets/{id}',
+                parameters: [],
+                extensions: { 'x-mcp-idempotentHint': false },
+                callback: async () => ({ data: 'result' })
+            }];
+            
+            setupServerTools(mockServer as any, operations as any);
+            
+            const config = mockServer.registerTool.firstCall.args[1];
+            assert.equal(config.title, 'Delete pet');
+            assert.deepEqual(config.annotations, {
+                title: 'Delete pet',
+                readOnlyHint: false,
+                destructiveHint: true,
+                idempotentHint: false,
+                openWorldHint: true
+            });
         });
         
         it('should create handler functions for each tool', () => {
             // Create mock server and single operation
             const toolHandlerStub = sinon.stub().returns({ name: 'handler' });
             const mockServer = {
-                tool: sinon.stub().callsFake((id, description, schema, handler) => {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
                     // Call the handler to test it
                     handler({ param: 'test-value' });
                     return { id, handler };
@@ -154,12 +223,249 @@ describe('SMP Operations', () => {
         });
     });
     
+    describe('configureHttpServer', () => {
+        const initializeRequest = {
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'initialize',
+            params: {
+                protocolVersion: '2025-03-26',
+                capabilities: {},
+                clientInfo: { name: 'test-client', version: '1.0.0' }
+            }
+        };
+        const mcpHeaders = {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json, text/event-stream'
+        };
+
+        it('should create a session per initialize request using the server factory', async () => {
+            const serverFactory = sinon.stub().callsFake(() => createMcpServer());
+            const httpServer = await configureHttpServer(serverFactory, { port: 0, host: '127.0.0.1' });
+            const { port } = httpServer.address() as AddressInfo;
+
+            try {
+                const first = await fetch(`http://127.0.0.1:${port}/mcp`, {
+                    method: 'POST',
+                    headers: mcpHeaders,
+                    body: JSON.stringify(initializeRequest)
+                });
+                const second = await fetch(`http://127.0.0.1:${port}/mcp`, {
+                    method: 'POST',
+                    headers: mcpHeaders,
+                    body: JSON.stringify(initializeRequest)
+                });
+                await first.body?.cancel();
+                await second.body?.cancel();
+
+                assert.equal(first.status, 200);
+                assert.ok(first.headers.get('mcp-session-id'));
+                assert.ok(second.headers.get('mcp-session-id'));
+                assert.notEqual(first.headers.get('mcp-session-id'), second.headers.get('mcp-session-id'));
+                assert.equal(serverFactory.callCount, 2);
+            } finally {
+                httpServer.closeAllConnections();
+                await new Promise((resolve) => httpServer.close(resolve));
+            }
+        });
+
+        it('should reject non-initialize requests without a session', async () => {
+            const serverFactory = sinon.stub().callsFake(() => createMcpServer());
+            const httpServer = await configureHttpServer(serverFactory, { port: 0, host: '127.0.0.1' });
+            const { port } = httpServer.address() as AddressInfo;
+
+            try {
+                const response = await fetch(`http://127.0.0.1:${port}/mcp`, {
+                    method: 'POST',
+                    headers: mcpHeaders,
+                    body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' })
+                });
+                const body = await response.json();
+
+                assert.equal(response.status, 400);
+                assert.equal(body.error.code, -32000);
+                assert.equal(serverFactory.callCount, 0);
+            } finally {
+                await new Promise((resolve) => httpServer.close(resolve));
+            }
+        });
+
+        it('should refuse requests for other hosts and from other origins', async () => {
+            const serverFactory = sinon.stub().callsFake(() => createMcpServer());
+            const httpServer = await configureHttpServer(serverFactory, {
+                port: 0,
+                host: '127.0.0.1',
+                allowedOrigins: ['https://app.example.com']
+            });
+            const { port } = httpServer.address() as AddressInfo;
+            // fetch does not let the Host header be set
+            const post = (headers: Record<string, string>) => new Promise<number>((resolve, reject) => {
+                const req = request({ port, host: '127.0.0.1', path: '/mcp', method: 'POST', headers: { ...mcpHeaders, ...headers } }, (res) => {
+                    res.resume();
+                    resolve(res.statusCode ?? 0);
+                });
+                req.on('error', reject);
+                req.end(JSON.stringify(initializeRequest));
+            });
+
+            try {
+                assert.equal(await post({ Host: `attacker.example:${port}` }), 403);
+                assert.equal(await post({ Origin: 'http://attacker.example' }), 403);
+                assert.equal(serverFactory.callCount, 0);
+
+                assert.equal(await post({ Host: `localhost:${port}`, Origin: 'https://app.example.com' }), 200);
+                assert.equal(await post({}), 200);
+                assert.equal(serverFactory.callCount, 2);
+            } finally {
+                httpServer.closeAllConnections();
+                await new Promise((resolve) => httpServer.close(resolve));
+            }
+        });
+
+        it('should close idle sessions', async () => {
+            const httpServer = await configureHttpServer(() => createMcpServer(), { port: 0, host: '127.0.0.1', sessionIdleTimeout: 50 });
+            const { port } = httpServer.address() as AddressInfo;
+
+            try {
+                const initialize = await fetch(`http://127.0.0.1:${port}/mcp`, {
+                    method: 'POST',
+                    headers: mcpHeaders,
+                    body: JSON.stringify(initializeRequest)
+                });
+                await initialize.body?.cancel();
+                const sessionId = initialize.headers.get('mcp-session-id') as string;
+
+                await new Promise((resolve) => setTimeout(resolve, 150));
+                const response = await fetch(`http://127.0.0.1:${port}/mcp`, {
+                    method: 'POST',
+                    headers: { ...mcpHeaders, 'mcp-session-id': sessionId },
+                    body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' })
+                });
+                const body = await response.json();
+                // the 404 tells the client to start a new session
+                assert.equal(response.status, 404);
+                assert.equal(body.error.message, 'Session not found');
+            } finally {
+                httpServer.closeAllConnections();
+                await new Promise((resolve) => httpServer.close(resolve));
+            }
+        });
+
+        it('should refuse request bodies over the size limit', async () => {
+            const serverFactory = sinon.stub().callsFake(() => createMcpServer());
+            const httpServer = await configureHttpServer(serverFactory, { port: 0, host: '127.0.0.1' });
+            const { port } = httpServer.address() as AddressInfo;
+
+            try {
+                const response = await fetch(`http://127.0.0.1:${port}/mcp`, {
+                    method: 'POST',
+                    headers: mcpHeaders,
+                    body: JSON.stringify({ ...initializeRequest, padding: 'x'.repeat(5 * 1024 * 1024) })
+                });
+                await response.body?.cancel();
+
+                assert.equal(response.status, 413);
+                assert.equal(serverFactory.callCount, 0);
+            } finally {
+                httpServer.closeAllConnections();
+                await new Promise((resolve) => httpServer.close(resolve));
+            }
+        });
+    });
+    
+    describe('configureHttpServer with SSE', () => {
+        it('should serve SSE and Streamable HTTP on the same port', async () => {
+            const serverFactory = sinon.stub().callsFake(() => createMcpServer());
+            const httpServer = await configureHttpServer(serverFactory, {
+                port: 0,
+                host: '127.0.0.1',
+                transports: ['http', 'sse']
+            });
+            const { port } = httpServer.address() as AddressInfo;
+
+            try {
+                const sseResponse = await fetch(`http://127.0.0.1:${port}/sse`);
+                assert.equal(sseResponse.status, 200);
+                assert.ok(sseResponse.headers.get('content-type')?.startsWith('text/event-stream'));
+
+                // The first event announces the endpoint to post messages to
+                assert.ok(sseResponse.body);
+                const reader = sseResponse.body.getReader();
+                const { value } = await reader.read();
+                const event = Buffer.from(value ?? []).toString('utf8');
+                assert.match(event, /event: endpoint/);
+                assert.match(event, /\/messages\?sessionId=[\w-]+/);
+                await reader.cancel();
+
+                const mcpResponse = await fetch(`http://127.0.0.1:${port}/mcp`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+                });
+                await mcpResponse.body?.cancel();
+                assert.equal(mcpResponse.status, 400);
+                assert.equal(serverFactory.callCount, 1);
+            } finally {
+                httpServer.closeAllConnections();
+                await new Promise((resolve) => httpServer.close(resolve));
+            }
+        });
+
+        it('should reject messages for unknown SSE sessions', async () => {
+            const httpServer = await configureHttpServer(() => createMcpServer(), {
+                port: 0,
+                host: '127.0.0.1',
+                transports: ['sse']
+            });
+            const { port } = httpServer.address() as AddressInfo;
+
+            try {
+                const response = await fetch(`http://127.0.0.1:${port}/messages?sessionId=unknown`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+                });
+                const body = await response.json();
+                assert.equal(response.status, 400);
+                assert.equal(body.error.code, -32000);
+
+                // Streamable HTTP is not served unless enabled
+                const mcpResponse = await fetch(`http://127.0.0.1:${port}/mcp`, { method: 'POST' });
+                await mcpResponse.body?.cancel();
+                assert.equal(mcpResponse.status, 404);
+            } finally {
+                await new Promise((resolve) => httpServer.close(resolve));
+            }
+        });
+
+        it('should refuse SSE streams opened from other origins', async () => {
+            const serverFactory = sinon.stub().callsFake(() => createMcpServer());
+            const httpServer = await configureHttpServer(serverFactory, {
+                port: 0,
+                host: '127.0.0.1',
+                transports: ['sse']
+            });
+            const { port } = httpServer.address() as AddressInfo;
+
+            try {
+                const response = await fetch(`http://127.0.0.1:${port}/sse`, { headers: { Origin: 'http://attacker.example' } });
+                const body = await response.json();
+                assert.equal(response.status, 403);
+                assert.equal(body.error.message, 'Invalid Origin header: http://attacker.example');
+                assert.equal(serverFactory.callCount, 0);
+            } finally {
+                httpServer.closeAllConnections();
+                await new Promise((resolve) => httpServer.close(resolve));
+            }
+        });
+    });
+    
     describe('Tool call handling', () => {
         it('should transform API responses to the correct MCP format', async () => {
             // This test verifies the onToolCall function that's used internally
             // Create mock server that will execute the tool handler
             const mockServer = {
-                tool: sinon.stub().callsFake((id, description, schema, handler) => {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
                     return { id, handler };
                 })
             };
@@ -178,7 +484,7 @@ describe('SMP Operations', () => {
             
             // Set up test to capture the handler
             let capturedHandler: Function | undefined;
-            mockServer.tool = sinon.stub().callsFake((id, description, schema, handler) => {
+            mockServer.registerTool = sinon.stub().callsFake((id, config, handler) => {
                 capturedHandler = handler;
                 return { id, handler };
             });
@@ -203,10 +509,56 @@ describe('SMP Operations', () => {
             assert.deepEqual(resultObj.data, { key: 'value' });
         });
         
+        it('should only return the allowed headers and honour the envelope mode', async () => {
+            const handlers: Record<string, (args: Record<string, unknown>) => Promise<any>> = {};
+            const mockServer = {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    handlers[id] = handler;
+                    return { id, handler };
+                })
+            };
+
+            const headers = { 'content-type': 'application/json', server: 'nginx', date: 'today', location: '/pets/7' };
+            const operations = [{
+                operationId: 'getPet',
+                description: 'Get a pet',
+                method: 'get',
+                parameters: [],
+                extensions: {},
+                callback: sinon.stub().resolves({ status: 200, headers, data: { id: 7 } })
+            }, {
+                operationId: 'getNotes',
+                description: 'Get the notes of a pet',
+                method: 'get',
+                parameters: [],
+                extensions: {},
+                callback: sinon.stub().resolves({ status: 200, headers: { 'content-type': 'text/plain; charset=utf-8' }, data: 'n'.repeat(300) })
+            }];
+
+            setupServerTools(mockServer as any, operations as any);
+            const full = await handlers.getPet({});
+            assert.deepEqual(JSON.parse(full.content[0].text), {
+                statusCode: 200,
+                headers: { 'content-type': 'application/json', location: '/pets/7' },
+                data: { id: 7 }
+            });
+
+            setupServerTools(mockServer as any, operations as any, { envelope: { mode: 'status' } });
+            const status = await handlers.getPet({});
+            assert.deepEqual(JSON.parse(status.content[0].text), { statusCode: 200, data: { id: 7 } });
+
+            setupServerTools(mockServer as any, operations as any, { envelope: { mode: 'body' }, responseBudget: { maxSize: 100 } });
+            const body = await handlers.getPet({});
+            assert.deepEqual(body.content, [{ type: 'text', text: '{\n  "id": 7\n}', mimeType: 'application/json' }]);
+            const text = await handlers.getNotes({});
+            assert.deepEqual(text.content[0], { type: 'text', text: `${'n'.repeat(100)}…`, mimeType: 'text/plain' });
+            assert.deepEqual(JSON.parse(text.content[1].text).truncation.dropped, [{ path: '$', characters: 200 }]);
+        });
+
         it('should handle API errors gracefully', async () => {
             // Create mock server
             const mockServer = {
-                tool: sinon.stub().callsFake((id, description, schema, handler) => {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
                     return { id, handler };
                 })
             };
@@ -228,7 +580,7 @@ describe('SMP Operations', () => {
             
             // Set up test to capture the handler
             let capturedHandler: Function | undefined;
-            mockServer.tool = sinon.stub().callsFake((id, description, schema, handler) => {
+            mockServer.registerTool = sinon.stub().callsFake((id, config, handler) => {
                 capturedHandler = handler;
                 return { id, handler };
             });
@@ -240,20 +592,51 @@ describe('SMP Operations', () => {
             assert.ok(capturedHandler, "Handler should be defined");
             const result = await capturedHandler({});
             
-            // Verify the result format includes error details
+            // Verify the result is flagged as an error and leads with a summary
             assert.ok(result.content);
+            assert.equal(result.isError, true);
             assert.equal(result.content[0].type, 'text');
+            assert.equal(result.content[0].text, 'HTTP 400 Bad Request: Bad request');
             
             // Parse result text to check for proper error details
-            const resultObj = JSON.parse(result.content[0].text);
+            const resultObj = JSON.parse(result.content[1].text);
             assert.equal(resultObj.statusCode, 400);
             assert.deepEqual(resultObj.data, { error: 'Bad request' });
         });
         
+        it('should flag transport failures as errors', async () => {
+            let capturedHandler: ((args: Record<string, unknown>) => Promise<any>) | undefined;
+            const mockServer = {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    capturedHandler = handler;
+                    return { id, handler };
+                })
+            };
+            
+            const networkError = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:80'), { code: 'ECONNREFUSED' });
+            const operations = [{
+                operationId: 'offline-op',
+                description: 'Offline operation',
+                parameters: [],
+                callback: sinon.stub().rejects(networkError)
+            }];
+            
+            setupServerTools(mockServer as any, operations as any);
+            
+            assert.ok(capturedHandler, "Handler should be defined");
+            const result = await capturedHandler({});
+            
+            assert.equal(result.isError, true);
+            assert.equal(
+                result.content[0].text,
+                'Request failed before a response was received: ECONNREFUSED: connect ECONNREFUSED 127.0.0.1:80'
+            );
+        });
+        
         it('should handle image content types correctly', async () => {
             // Create mock server
             const mockServer = {
-                tool: sinon.stub().callsFake((id, description, schema, handler) => {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
                     return { id, handler };
                 })
             };
@@ -272,7 +655,7 @@ describe('SMP Operations', () => {
             
             // Set up test to capture the handler
             let capturedHandler: Function | undefined;
-            mockServer.tool = sinon.stub().callsFake((id, description, schema, handler) => {
+            mockServer.registerTool = sinon.stub().callsFake((id, config, handler) => {
                 capturedHandler = handler;
                 return { id, handler };
             });
@@ -288,7 +671,680 @@ describe('SMP Operations', () => {
             assert.ok(result.content);
             assert.equal(result.content[0].type, 'image');
             assert.equal(result.content[0].mimeType, 'image/jpeg');
-            assert.ok(Buffer.isBuffer(result.content[0].data));
+            assert.equal(result.content[0].data, Buffer.from('fake-image-data').toString('base64'));
+            // Responses are fetched as raw bytes
+            assert.equal(operations[0].callback.firstCall.args[2].responseType, 'arraybuffer');
+        });
+        
+        it('should decode JSON bodies fetched as raw bytes', async () => {
+            let capturedHandler: ((args: Record<string, unknown>) => Promise<any>) | undefined;
+            const mockServer = {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    capturedHandler = handler;
+                    return { id, handler };
+                })
+            };
+            
+            const operations = [{
+                operationId: 'json-op',
+                description: 'JSON operation',
+                parameters: [],
+                callback: sinon.stub().resolves({
+                    status: 200,
+                    headers: { 'content-type': 'application/json; charset=utf-8' },
+                    data: Buffer.from(JSON.stringify({ key: 'value' }))
+                })
+            }];
+            
+            setupServerTools(mockServer as any, operations as any);
+            
+            assert.ok(capturedHandler, "Handler should be defined");
+            const result = await capturedHandler({});
+            
+            assert.deepEqual(JSON.parse(result.content[0].text).data, { key: 'value' });
+        });
+        
+        it('should return other binary types as embedded resources', async () => {
+            let capturedHandler: ((args: Record<string, unknown>) => Promise<any>) | undefined;
+            const mockServer = {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    capturedHandler = handler;
+                    return { id, handler };
+                })
+            };
+            
+            const pdf = Buffer.from('%PDF-1.7 fake');
+            const operations = [{
+                operationId: 'pdf-op',
+                description: 'PDF operation',
+                parameters: [],
+                callback: sinon.stub().resolves({
+                    status: 200,
+                    headers: { 'content-type': 'application/pdf' },
+                    data: pdf,
+                    config: { baseURL: 'https://api.example.com', url: '/reports/1', params: { format: 'pdf' } }
+                })
+            }];
+            
+            setupServerTools(mockServer as any, operations as any);
+            
+            assert.ok(capturedHandler, "Handler should be defined");
+            const result = await capturedHandler({});
+            
+            assert.deepEqual(result.content[0], {
+                type: 'resource',
+                resource: {
+                    uri: 'https://api.example.com/reports/1?format=pdf',
+                    mimeType: 'application/pdf',
+                    blob: pdf.toString('base64')
+                }
+            });
+        });
+        
+        it('should return a resource link for binary responses above the size limit', async () => {
+            let capturedHandler: ((args: Record<string, unknown>) => Promise<any>) | undefined;
+            const mockServer = {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    capturedHandler = handler;
+                    return { id, handler };
+                })
+            };
+            
+            const operations = [{
+                operationId: 'zip-op',
+                description: 'Zip operation',
+                parameters: [],
+                callback: sinon.stub().resolves({
+                    status: 200,
+                    headers: { 'content-type': 'application/zip', 'content-disposition': 'attachment; filename="export.zip"' },
+                    data: Buffer.alloc(32),
+                    config: { baseURL: 'https://api.example.com', url: '/export' }
+                })
+            }];
+            
+            setupServerTools(mockServer as any, operations as any, { maxBinarySize: 16 });
+            
+            assert.ok(capturedHandler, "Handler should be defined");
+            const result = await capturedHandler({});
+            
+            assert.equal(result.content[0].type, 'resource_link');
+            assert.equal(result.content[0].uri, 'https://api.example.com/export');
+            assert.equal(result.content[0].name, 'export.zip');
+            assert.equal(result.content[0].mimeType, 'application/zip');
+        });
+        
+        it('should return structured content matching the output schema', async () => {
+            let capturedConfig: any;
+            let capturedHandler: ((args: Record<string, unknown>) => Promise<any>) | undefined;
+            const mockServer = {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    capturedConfig = config;
+                    capturedHandler = handler;
+                    return { id, handler };
+                })
+            };
+            
+            const operations = [{
+                operationId: 'get-pet',
+                description: 'Get a pet',
+                parameters: [],
+                responses: {
+                    '200': {
+                        description: 'ok',
+                        content: { 'application/json': { schema: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } } } }
+                    }
+                },
+                callback: sinon.stub().resolves({
+                    status: 200,
+                    headers: { 'content-type': 'application/json' },
+                    data: { name: 'Rex' }
+                })
+            }];
+            
+            setupServerTools(mockServer as any, operations as any);
+            
+            assert.ok(capturedConfig.outputSchema.data);
+            assert.ok(capturedHandler, "Handler should be defined");
+            const result = await capturedHandler({});
+            
+            assert.deepEqual(result.structuredContent, { data: { name: 'Rex' } });
+            assert.equal(result.isError, undefined);
+            // The text content stays as a fallback
+            assert.equal(result.content[0].type, 'text');
+            assert.deepEqual(JSON.parse(result.content[0].text).data, { name: 'Rex' });
+        });
+        
+        it('should return responses not matching the output schema as text without flagging an error', async () => {
+            let capturedHandler: ((args: Record<string, unknown>) => Promise<any>) | undefined;
+            const mockServer = {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    capturedHandler = handler;
+                    return { id, handler };
+                })
+            };
+            
+            const operations = [{
+                operationId: 'get-pet',
+                description: 'Get a pet',
+                parameters: [],
+                responses: {
+                    '200': {
+                        description: 'ok',
+                        content: { 'application/json': { schema: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } } } }
+                    }
+                },
+                callback: sinon.stub().resolves({
+                    status: 200,
+                    headers: { 'content-type': 'application/json' },
+                    data: { name: 42 }
+                })
+            }];
+            
+            setupServerTools(mockServer as any, operations as any);
+            
+            assert.ok(capturedHandler, "Handler should be defined");
+            const result = await capturedHandler({});
+            
+            assert.equal(result.isError, undefined);
+            assert.deepEqual(result.structuredContent, {});
+            assert.equal(result.content.length, 2);
+            assert.deepEqual(JSON.parse(result.content[0].text).data, { name: 42 });
+            assert.match(result.content[1].text, /does not match the documented response schema/);
+        });
+        
+        it('should retry transient failures of idempotent operations and report progress', async () => {
+            const handlers: Record<string, (args: Record<string, unknown>, extra?: any) => Promise<any>> = {};
+            const mockServer = {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    handlers[id] = handler;
+                    return { id, handler };
+                })
+            };
+            
+            const unavailable = Object.assign(new Error('Service Unavailable'), {
+                response: { status: 503, headers: { 'retry-after': '0' }, data: 'down' }
+            });
+            const getPet = sinon.stub();
+            getPet.onFirstCall().rejects(unavailable);
+            getPet.onSecondCall().resolves({ status: 200, headers: { 'content-type': 'application/json' }, data: { name: 'Rex' } });
+            const operations = [
+                { operationId: 'getPet', description: 'Get a pet', method: 'get', parameters: [], extensions: {}, callback: getPet },
+                { operationId: 'createPet', description: 'Create a pet', method: 'post', parameters: [], extensions: {}, callback: sinon.stub().rejects(unavailable) }
+            ];
+            
+            setupServerTools(mockServer as any, operations as any, { retry: { baseDelay: 1 } });
+            
+            const sendNotification = sinon.stub().resolves();
+            const result = await handlers.getPet({}, { _meta: { progressToken: 'token-1' }, sendNotification });
+            assert.equal(result.isError, undefined);
+            assert.equal(getPet.callCount, 2);
+            assert.deepEqual(sendNotification.firstCall.args[0], {
+                method: 'notifications/progress',
+                params: {
+                    progressToken: 'token-1',
+                    progress: 1,
+                    total: 3,
+                    message: 'Attempt 1 of 3 failed with HTTP 503, retrying in 0ms'
+                }
+            });
+            
+            const failed = await handlers.createPet({});
+            assert.equal(failed.isError, true);
+            assert.equal(operations[1].callback.callCount, 1);
+        });
+
+        it('should pass the operation timeout and the abort signal to the request', async () => {
+            const handlers: Record<string, (args: Record<string, unknown>, extra?: any) => Promise<any>> = {};
+            const mockServer = {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    handlers[id] = handler;
+                    return { id, handler };
+                })
+            };
+            
+            const timeoutError = Object.assign(new Error('timeout of 100ms exceeded'), { code: 'ECONNABORTED' });
+            const operations = [
+                {
+                    operationId: 'report',
+                    description: 'Build a report',
+                    method: 'post',
+                    parameters: [],
+                    extensions: { 'x-mcp-timeout': 100 },
+                    callback: sinon.stub().rejects(timeoutError)
+                },
+                {
+                    operationId: 'getPet',
+                    description: 'Get a pet',
+                    method: 'get',
+                    parameters: [],
+                    extensions: {},
+                    callback: sinon.stub().rejects(Object.assign(new Error('canceled'), { code: 'ERR_CANCELED' }))
+                }
+            ];
+            
+            setupServerTools(mockServer as any, operations as any, { timeout: 5000 });
+            
+            const controller = new AbortController();
+            const timedOut = await handlers.report({}, { signal: controller.signal });
+            const config = operations[0].callback.firstCall.args[2];
+            assert.equal(config.timeout, 100);
+            assert.equal(timedOut.isError, true);
+            assert.equal(timedOut.content[0].text, 'Request failed before a response was received: Timed out after 100ms');
+            
+            // the request signal also aborts at the deadline, and when the client cancels
+            controller.abort();
+            assert.equal(config.signal.aborted, true);
+            const cancelled = await handlers.getPet({}, { signal: controller.signal });
+            assert.equal(operations[1].callback.firstCall.args[2].timeout, 5000);
+            assert.equal(operations[1].callback.callCount, 1);
+            assert.equal(cancelled.content[0].text, 'Request failed before a response was received: Cancelled by the client');
+        });
+
+        it('should send requests through the rate limiter keyed by operation and host', async () => {
+            let capturedHandler: ((args: Record<string, unknown>) => Promise<any>) | undefined;
+            const mockServer = {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    capturedHandler = handler;
+                    return { id, handler };
+                })
+            };
+            
+            const queueTimeout = Object.assign(new Error('Waited 100ms for the host api.example.com limit without getting a slot'), { code: 'EQUEUETIMEOUT' });
+            const rateLimiter = {
+                usesHosts: true,
+                schedule: sinon.stub().callsFake((key, task) => task())
+            };
+            rateLimiter.schedule.onSecondCall().rejects(queueTimeout);
+            const operations = [{
+                operationId: 'getPet',
+                description: 'Get a pet',
+                method: 'get',
+                parameters: [],
+                extensions: {},
+                callback: sinon.stub().resolves({ status: 200, headers: {}, data: {} }),
+                resolveRequest: sinon.stub().returns({ method: 'GET', url: 'https://api.example.com/pets/1', headers: {} })
+            }];
+            
+            setupServerTools(mockServer as any, operations as any, { rateLimiter, retry: { maxAttempts: 1 } });
+            
+            assert.ok(capturedHandler, "Handler should be defined");
+            const sent = await capturedHandler({});
+            assert.equal(sent.isError, undefined);
+            assert.deepEqual(rateLimiter.schedule.firstCall.args[0], { operationId: 'getPet', host: 'api.example.com' });
+            
+            const limited = await capturedHandler({});
+            assert.equal(limited.isError, true);
+            assert.equal(
+                limited.content[0].text,
+                'Request failed before a response was received: Not sent because of rate limits: Waited 100ms for the host api.example.com limit without getting a slot'
+            );
+            assert.equal(operations[0].callback.callCount, 1);
+        });
+
+        it('should combine the pages of paginated operations and resume from continuation tokens', async () => {
+            let capturedHandler: ((args: Record<string, unknown>) => Promise<any>) | undefined;
+            let capturedConfig: any;
+            const mockServer = {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    capturedHandler = handler;
+                    capturedConfig = config;
+                    return { id, handler };
+                })
+            };
+
+            const pages: Record<string, unknown> = {
+                first: { data: [{ id: 1 }, { id: 2 }], next_cursor: 'b' },
+                b: { data: [{ id: 3 }, { id: 4 }], next_cursor: 'c' },
+                c: { data: [{ id: 5 }], next_cursor: null },
+            };
+            const operations = [{
+                operationId: 'listPets',
+                description: 'List pets',
+                method: 'get',
+                parameters: [{ name: 'cursor', in: 'query', schema: { type: 'string' } }],
+                responses: { '200': { description: 'ok', content: { 'application/json': { schema: { type: 'object' } } } } },
+                extensions: {},
+                callback: sinon.stub().callsFake(async (params) => ({
+                    status: 200,
+                    headers: {},
+                    data: pages[params.find((param: any) => param.name === 'cursor')?.value ?? 'first']
+                })),
+                resolveRequest: sinon.stub().returns({ method: 'GET', url: 'https://api.example.com/pets', headers: {} })
+            }];
+
+            setupServerTools(mockServer as any, operations as any, { pagination: { detect: true, maxPages: 2 } });
+
+            assert.ok(capturedHandler, "Handler should be defined");
+            assert.ok(capturedConfig.inputSchema._continuation);
+            const result = await capturedHandler({});
+            assert.equal(result.isError, undefined);
+            assert.deepEqual(result.structuredContent.data.data, [{ id: 1 }, { id: 2 }, { id: 3 }, { id: 4 }]);
+            const { pagination } = result.structuredContent;
+            assert.equal(pagination.pages, 2);
+            assert.equal(pagination.complete, false);
+            assert.deepEqual(JSON.parse(result.content[0].text).pagination, pagination);
+            assert.ok(z.object(capturedConfig.outputSchema).safeParse(result.structuredContent).success);
+
+            const resumed = await capturedHandler({ _continuation: pagination.continuation });
+            assert.deepEqual(resumed.structuredContent.data.data, [{ id: 5 }]);
+            assert.deepEqual(resumed.structuredContent.pagination, { pages: 1, items: 1, complete: true });
+            assert.equal(operations[0].callback.callCount, 3);
+
+            const invalid = await capturedHandler({ _continuation: 'garbage' });
+            assert.equal(invalid.isError, true);
+            assert.equal(invalid.content[0].text, 'Invalid continuation token for operation listPets');
+            assert.equal(operations[0].callback.callCount, 3);
+        });
+
+        it('should refuse forged continuation tokens and next pages tunnelling unsafe methods', async () => {
+            let capturedHandler: ((args: Record<string, unknown>) => Promise<any>) | undefined;
+            const mockServer = {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    capturedHandler = handler;
+                    return { id, handler };
+                })
+            };
+
+            const operations = [{
+                operationId: 'listPets',
+                description: 'List pets',
+                method: 'get',
+                parameters: [{ name: 'cursor', in: 'query', schema: { type: 'string' } }],
+                responses: { '200': { description: 'ok', content: { 'application/json': { schema: { type: 'object' } } } } },
+                extensions: {},
+                callback: sinon.stub().resolves({ status: 200, headers: {}, data: { data: [] } }),
+                resolveRequest: sinon.stub().returns({ method: 'GET', url: 'https://api.example.com/pets', headers: {} })
+            }];
+
+            setupServerTools(mockServer as any, operations as any, { pagination: { detect: true }, readOnly: true });
+
+            assert.ok(capturedHandler, "Handler should be defined");
+            const next = { url: 'https://api.example.com/admin/users/1?_method=DELETE' };
+            const forged = Buffer.from(JSON.stringify({ operationId: 'listPets', next })).toString('base64url');
+            const refused = await capturedHandler({ _continuation: forged });
+            assert.equal(refused.isError, true);
+            assert.equal(refused.content[0].text, 'Invalid continuation token for operation listPets');
+
+            const tunnelled = await capturedHandler({ _continuation: encodeContinuation('listPets', next) });
+            assert.equal(tunnelled.isError, true);
+            assert.match(tunnelled.content[0].text, /DELETE/);
+            assert.equal(operations[0].callback.callCount, 0);
+        });
+
+        it('should project and truncate responses to the response budget', async () => {
+            let capturedHandler: ((args: Record<string, unknown>) => Promise<any>) | undefined;
+            let capturedConfig: any;
+            const mockServer = {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    capturedHandler = handler;
+                    capturedConfig = config;
+                    return { id, handler };
+                })
+            };
+
+            const pets = Array.from({ length: 200 }, (_, id) => ({ id, name: `pet ${id}`, notes: 'n'.repeat(100) }));
+            const operations = [{
+                operationId: 'listPets',
+                description: 'List pets',
+                method: 'get',
+                parameters: [],
+                responses: { '200': { description: 'ok', content: { 'application/json': { schema: {
+                    type: 'array',
+                    items: { type: 'object', required: ['id', 'name'], properties: { id: { type: 'integer' }, name: { type: 'string' }, notes: { type: 'string' } } }
+                } } } } },
+                extensions: {},
+                callback: sinon.stub().resolves({ status: 200, headers: {}, data: pets })
+            }];
+
+            setupServerTools(mockServer as any, operations as any, { responseBudget: { maxSize: 6000 } });
+
+            assert.ok(capturedHandler, "Handler should be defined");
+            assert.ok(capturedConfig.inputSchema._fields);
+            const truncated = await capturedHandler({});
+            assert.equal(truncated.isError, undefined);
+            const { data, truncation } = truncated.structuredContent;
+            assert.ok(data.length > 0 && data.length < 200);
+            assert.deepEqual(truncation.dropped, [{ path: '$', items: 200 - data.length }]);
+            assert.deepEqual(JSON.parse(truncated.content[0].text).truncation, truncation);
+            assert.ok(z.object(capturedConfig.outputSchema).safeParse(truncated.structuredContent).success);
+
+            const projected = await capturedHandler({ _fields: ['id'] });
+            assert.equal(projected.structuredContent.data, undefined);
+            assert.deepEqual(projected.structuredContent.truncation.fields, ['id']);
+            const text = JSON.parse(projected.content[0].text);
+            assert.equal(text.data.length, 200);
+            assert.deepEqual(text.data[0], { id: 0 });
+        });
+
+        it('should leave out reserved arguments that parameters are named like', async () => {
+            let capturedHandler: ((args: Record<string, unknown>) => Promise<any>) | undefined;
+            let capturedConfig: any;
+            const mockServer = {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    capturedHandler = handler;
+                    capturedConfig = config;
+                    return { id, handler };
+                })
+            };
+
+            const callback = sinon.stub().resolves({ status: 200, headers: { 'content-type': 'application/json' }, data: [{ id: 1, title: 'Hello' }] });
+            const operations = [{
+                operationId: 'listPosts',
+                description: 'List posts',
+                method: 'get',
+                path: '/posts',
+                parameters: [
+                    { name: '_fields', in: 'query', schema: { type: 'string' } },
+                    { name: '_dryRun', in: 'query', schema: { type: 'boolean' } },
+                ],
+                extensions: {},
+                callback
+            }];
+
+            setupServerTools(mockServer as any, operations as any);
+
+            assert.ok(capturedHandler, "Handler should be defined");
+            assert.ok(z.object(capturedConfig.inputSchema).safeParse({ _fields: 'id,title', _dryRun: true }).success);
+            const result = await capturedHandler({ _fields: 'id,title', _dryRun: true });
+
+            assert.equal(callback.callCount, 1);
+            assert.deepEqual(callback.firstCall.args[0], [
+                { name: '_fields', value: 'id,title', in: 'query' },
+                { name: '_dryRun', value: true, in: 'query' },
+            ]);
+            assert.deepEqual(JSON.parse(result.content[0].text).data, [{ id: 1, title: 'Hello' }]);
+        });
+
+        it('should refuse method overrides in read-only mode without calling the API', async () => {
+            let capturedHandler: ((args: Record<string, unknown>) => Promise<any>) | undefined;
+            const mockServer = {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    capturedHandler = handler;
+                    return { id, handler };
+                })
+            };
+            
+            const operations = [{
+                operationId: 'getPet',
+                description: 'Get a pet',
+                method: 'get',
+                parameters: [{ name: 'X-HTTP-Method-Override', in: 'header', schema: { type: 'string' } }],
+                extensions: {},
+                callback: sinon.stub().resolves({ status: 200, headers: {}, data: {} })
+            }];
+            
+            setupServerTools(mockServer as any, operations as any, { readOnly: true });
+            
+            assert.ok(capturedHandler, "Handler should be defined");
+            const refused = await capturedHandler({ 'X-HTTP-Method-Override': 'DELETE' });
+            assert.equal(refused.isError, true);
+            assert.deepEqual(refused.content, [{ type: 'text', text: 'Overriding the method to DELETE is not allowed in read-only mode' }]);
+            assert.equal(operations[0].callback.callCount, 0);
+            
+            const allowed = await capturedHandler({});
+            assert.equal(allowed.isError, undefined);
+            assert.equal(operations[0].callback.callCount, 1);
+        });
+
+        it('should ask the user to confirm dangerous requests before calling the API', async () => {
+            let capturedHandler: ((args: Record<string, unknown>) => Promise<any>) | undefined;
+            const elicitInput = sinon.stub();
+            elicitInput.onFirstCall().resolves({ action: 'decline' });
+            elicitInput.onSecondCall().resolves({ action: 'accept', content: { confirm: true } });
+            const mockServer = {
+                server: {
+                    getClientCapabilities: sinon.stub().returns({ elicitation: {} }),
+                    elicitInput
+                },
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    capturedHandler = handler;
+                    return { id, handler };
+                })
+            };
+            
+            const operations = [{
+                operationId: 'deletePet',
+                description: 'Delete a pet',
+                method: 'delete',
+                parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+                extensions: {},
+                callback: sinon.stub().resolves({ status: 204, headers: {}, data: undefined }),
+                resolveRequest: sinon.stub().callsFake((params) => ({
+                    method: 'DELETE',
+                    url: `https://api.example.com/pets/${params[0].value}`,
+                    headers: {}
+                }))
+            }];
+            
+            setupServerTools(mockServer as any, operations as any, { confirm: { methods: ['delete'] } });
+            
+            assert.ok(capturedHandler, "Handler should be defined");
+            const declined = await capturedHandler({ id: '7' });
+            assert.equal(declined.isError, true);
+            assert.deepEqual(declined.content, [{
+                type: 'text',
+                text: 'The user declined the DELETE https://api.example.com/pets/7 request of operation deletePet. The request was not sent.'
+            }]);
+            assert.equal(operations[0].callback.callCount, 0);
+            assert.ok(elicitInput.firstCall.args[0].message.includes('DELETE https://api.example.com/pets/7'));
+            
+            const confirmed = await capturedHandler({ id: '7' });
+            assert.equal(confirmed.isError, undefined);
+            assert.equal(operations[0].callback.callCount, 1);
+        });
+
+        it('should return the resolved request instead of calling the API on dry runs', async () => {
+            let capturedHandler: ((args: Record<string, unknown>) => Promise<any>) | undefined;
+            let capturedConfig: any;
+            const elicitInput = sinon.stub();
+            const mockServer = {
+                server: { getClientCapabilities: sinon.stub().returns({ elicitation: {} }), elicitInput },
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    capturedHandler = handler;
+                    capturedConfig = config;
+                    return { id, handler };
+                })
+            };
+            
+            const operations = [{
+                operationId: 'deletePet',
+                description: 'Delete a pet',
+                method: 'delete',
+                parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+                responses: { '200': { description: 'ok', content: { 'application/json': { schema: { type: 'object' } } } } },
+                extensions: {},
+                callback: sinon.stub().resolves({ status: 200, headers: {}, data: {} }),
+                resolveRequest: sinon.stub().callsFake((params, body, config) => ({
+                    method: 'DELETE',
+                    url: `https://api.example.com/pets/${params[0].value}`,
+                    headers: { Authorization: 'Bearer secret', ...config.headers }
+                }))
+            }];
+            
+            setupServerTools(mockServer as any, operations as any, { confirm: { methods: ['delete'] } });
+            
+            assert.ok(capturedHandler, "Handler should be defined");
+            assert.ok(capturedConfig.inputSchema._dryRun);
+            const result = await capturedHandler({ id: '7', _dryRun: true });
+            const request = { method: 'DELETE', url: 'https://api.example.com/pets/7', headers: { Authorization: '[REDACTED]' } };
+            assert.equal(result.isError, undefined);
+            assert.deepEqual(result.structuredContent, { request });
+            assert.deepEqual(JSON.parse(result.content[0].text), request);
+            assert.equal(result.content[1].text, `curl -X DELETE 'https://api.example.com/pets/7' -H 'Authorization: [REDACTED]'`);
+            assert.ok(z.object(capturedConfig.outputSchema).safeParse(result.structuredContent).success);
+            assert.equal(operations[0].callback.callCount, 0);
+            assert.equal(elicitInput.callCount, 0);
+        });
+
+        it('should dry run every call in dry-run mode', async () => {
+            let capturedHandler: ((args: Record<string, unknown>) => Promise<any>) | undefined;
+            const mockServer = {
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    capturedHandler = handler;
+                    return { id, handler };
+                })
+            };
+            
+            const operations = [{
+                operationId: 'createPet',
+                description: 'Create a pet',
+                method: 'post',
+                parameters: [],
+                requestBody: { content: { 'application/json': { schema: { type: 'object', properties: { name: { type: 'string' } } } } } },
+                extensions: {},
+                callback: sinon.stub().resolves({ status: 201, headers: {}, data: {} }),
+                resolveRequest: sinon.stub().callsFake((params, body, config) => ({
+                    method: 'POST',
+                    url: 'https://api.example.com/pets',
+                    headers: { ...config.headers },
+                    data: body
+                }))
+            }];
+            
+            setupServerTools(mockServer as any, operations as any, { dryRun: true });
+            
+            assert.ok(capturedHandler, "Handler should be defined");
+            const result = await capturedHandler({ name: 'Rex' });
+            assert.deepEqual(result.structuredContent.request.body, '{"name":"Rex"}');
+            assert.equal(
+                result.content[1].text,
+                `curl -X POST 'https://api.example.com/pets' -H 'Content-Type: application/json' --data-raw '{"name":"Rex"}'`
+            );
+            assert.equal(operations[0].callback.callCount, 0);
+        });
+
+        it('should refuse requests needing confirmation when the client cannot elicit', async () => {
+            let capturedHandler: ((args: Record<string, unknown>) => Promise<any>) | undefined;
+            const mockServer = {
+                server: {
+                    getClientCapabilities: sinon.stub().returns({}),
+                    elicitInput: sinon.stub()
+                },
+                registerTool: sinon.stub().callsFake((id, config, handler) => {
+                    capturedHandler = handler;
+                    return { id, handler };
+                })
+            };
+            
+            const operations = [{
+                operationId: 'createOrder',
+                description: 'Create an order',
+                method: 'post',
+                parameters: [],
+                tags: ['billing'],
+                extensions: {},
+                callback: sinon.stub().resolves({ status: 201, headers: {}, data: {} }),
+                resolveRequest: sinon.stub().returns({ method: 'POST', url: 'https://api.example.com/orders', headers: {} })
+            }];
+            
+            setupServerTools(mockServer as any, operations as any, { confirm: { methods: ['delete'], tags: ['billing'] } });
+            
+            assert.ok(capturedHandler, "Handler should be defined");
+            const refused = await capturedHandler({});
+            assert.equal(refused.isError, true);
+            assert.match(refused.content[0].text, /requires user confirmation, but the client does not support elicitation/);
+            assert.equal(mockServer.server.elicitInput.callCount, 0);
+            assert.equal(operations[0].callback.callCount, 0);
         });
     });
-});
\ No newline at end of file
+});
@@ -0,0 +1,68 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import * as sinon from 'sinon';
+import { getConfirmationMessage, requiresConfirmation } from '../../../src/utils/confirmation';
+import logger from '../../../src/utils/logger';
+
+describe('Confirmation', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    const deletePet = { operationId: 'deletePet', method: 'delete', tags: ['pets'] };
+    const createOrder = { operationId: 'createOrder', method: 'post', tags: ['billing'] };
+
+    beforeEach(() => {
+        sandbox = sinon.createSandbox();
+        // Silence logger during tests
+        sandbox.stub(logger, 'debug');
+        sandbox.stub(logger, 'info');
+        sandbox.stub(logger, 'warn');
+        sandbox.stub(logger, 'error');
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe('requiresConfirmation', () => {
+        it('should match methods, tags and operationIds', () => {
+            assert.equal(requiresConfirmation(deletePet), false);
+            assert.equal(requiresConfirmation(deletePet, { methods: ['DELETE'] }), true);
+            assert.equal(requiresConfirmation(createOrder, { methods: ['delete'] }), false);
+            assert.equal(requiresConfirmation(createOrder, { tags: ['billing'] }), true);
+            assert.equal(requiresConfirmation(createOrder, { operationIds: ['createOrder'] }), true);
+        });
+
+        it('should let the x-mcp-confirm extension override the lists', () => {
+            assert.equal(requiresConfirmation({ ...createOrder, extensions: { 'x-mcp-confirm': true } }), true);
+            assert.equal(requiresConfirmation({ ...deletePet, extensions: { 'x-mcp-confirm': false } }, { methods: ['delete'] }), false);
+        });
+    });
+
+    describe('getConfirmationMessage', () => {
+        it('should show the method, URL and body', () => {
+            const message = getConfirmationMessage('createOrder', {
+                method: 'post',
+                url: 'https://api.example.com/orders',
+                data: { amount: 10 }
+            });
+
+            assert.equal(message, [
+                'The tool createOrder wants to send the following request:',
+                'POST https://api.example.com/orders',
+                '',
+                'Body:',
+                '{\n  "amount": 10\n}',
+                '',
+                'Do you want to send it?'
+            ].join('\n'));
+        });
+
+        it('should leave out empty bodies and truncate large ones', () => {
+            const empty = getConfirmationMessage('deletePet', { method: 'DELETE', url: 'https://api.example.com/pets/7' });
+            assert.ok(!empty.includes('Body:'));
+
+            const large = getConfirmationMessage('upload', { method: 'PUT', url: 'https://api.example.com/files', data: 'x'.repeat(5000) });
+            assert.ok(large.includes('... (5000 characters)'));
+        });
+    });
+});
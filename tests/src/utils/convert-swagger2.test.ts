@@ -0,0 +1,229 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import * as sinon from 'sinon';
+import { convertSwagger2ToOpenApi3, isSwagger2 } from '../../../src/utils/convert-swagger2';
+import logger from '../../../src/utils/logger';
+
+describe('Convert Swagger 2.0', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    beforeEach(() => {
+        sandbox = sinon.createSandbox();
+        // Silence logger during tests
+        sandbox.stub(logger, 'debug');
+        sandbox.stub(logger, 'info');
+        sandbox.stub(logger, 'warn');
+        sandbox.stub(logger, 'error');
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe('isSwagger2', () => {
+        it('should detect Swagger 2.0 documents', () => {
+            assert.equal(isSwagger2({ swagger: '2.0' }), true);
+            assert.equal(isSwagger2({ openapi: '3.0.3' }), false);
+            assert.equal(isSwagger2(null), false);
+        });
+    });
+
+    describe('convertSwagger2ToOpenApi3', () => {
+        it('should derive servers from host, schemes and basePath', () => {
+            const result = convertSwagger2ToOpenApi3({
+                swagger: '2.0',
+                info: { title: 'Test', version: '1.0.0' },
+                host: 'api.example.com',
+                basePath: '/v1',
+                schemes: ['https', 'http'],
+                paths: {}
+            });
+
+            assert.equal(result.openapi, '3.0.3');
+            assert.deepEqual(result.servers, [
+                { url: 'https://api.example.com/v1' },
+                { url: 'http://api.example.com/v1' }
+            ]);
+        });
+
+        it('should use a relative server without a host', () => {
+            const result = convertSwagger2ToOpenApi3({
+                swagger: '2.0',
+                info: { title: 'Test', version: '1.0.0' },
+                basePath: '/v1',
+                paths: {}
+            });
+
+            assert.deepEqual(result.servers, [{ url: '/v1' }]);
+        });
+
+        it('should only add operation servers for schemes other than the document ones', () => {
+            const operation = (schemes?: string[]) => ({ ...(schemes ? { schemes } : {}), responses: {} });
+            const paths = {
+                '/a': { get: operation(['http']) },
+                '/b': { get: operation(['https']) },
+                '/c': { get: operation() },
+            };
+
+            const result = convertSwagger2ToOpenApi3({
+                swagger: '2.0',
+                info: { title: 'Test', version: '1.0.0' },
+                host: 'api.example.com',
+                paths
+            });
+            const relative = convertSwagger2ToOpenApi3({
+                swagger: '2.0',
+                info: { title: 'Test', version: '1.0.0' },
+                paths
+            });
+
+            assert.deepEqual(result.paths['/a']?.get?.servers, [{ url: 'http://api.example.com' }]);
+            assert.equal(result.paths['/b']?.get?.servers, undefined);
+            assert.equal(result.paths['/c']?.get?.servers, undefined);
+            assert.equal(relative.paths['/a']?.get?.servers, undefined);
+        });
+
+        it('should move definitions to components and rewrite refs', () => {
+            const result = convertSwagger2ToOpenApi3({
+                swagger: '2.0',
+                info: { title: 'Test', version: '1.0.0' },
+                paths: {
+                    '/pets': {
+                        get: {
+                            produces: ['application/json', 'application/xml'],
+                            responses: {
+                                '200': { description: 'ok', schema: { type: 'array', items: { $ref: '#/definitions/Pet' } } },
+                                default: { $ref: '#/responses/Error' }
+                            }
+                        }
+                    }
+                },
+                definitions: {
+                    Pet: {
+                        type: 'object',
+                        discriminator: 'kind',
+                        properties: { kind: { type: 'string' }, owner: { $ref: '#/definitions/Owner' }, tag: { type: 'string', 'x-nullable': true } }
+                    },
+                    Owner: { type: 'object' }
+                },
+                responses: {
+                    Error: { description: 'error', schema: { type: 'string' } }
+                }
+            }) as any;
+
+            const pet = result.components.schemas.Pet;
+            assert.equal(pet.properties.owner.$ref, '#/components/schemas/Owner');
+            assert.deepEqual(pet.discriminator, { propertyName: 'kind' });
+            assert.equal(pet.properties.tag.nullable, true);
+
+            const responses = result.paths['/pets'].get.responses;
+            assert.deepEqual(Object.keys(responses['200'].content), ['application/json', 'application/xml']);
+            assert.equal(responses['200'].content['application/json'].schema.items.$ref, '#/components/schemas/Pet');
+            assert.equal(responses.default.$ref, '#/components/responses/Error');
+            assert.deepEqual(result.components.responses.Error.content['application/json'].schema, { type: 'string' });
+        });
+
+        it('should convert body parameters to a requestBody using consumes', () => {
+            const result = convertSwagger2ToOpenApi3({
+                swagger: '2.0',
+                info: { title: 'Test', version: '1.0.0' },
+                consumes: ['application/json'],
+                paths: {
+                    '/pets/{id}': {
+                        parameters: [{ name: 'id', in: 'path', required: true, type: 'integer' }],
+                        put: {
+                            consumes: ['application/vnd.pet+json'],
+                            parameters: [
+                                { name: 'pet', in: 'body', required: true, description: 'the pet', schema: { $ref: '#/definitions/Pet' } },
+                                { name: 'tags', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'multi' }
+                            ],
+                            responses: { '204': { description: 'ok' } }
+                        }
+                    }
+                },
+                definitions: { Pet: { type: 'object' } }
+            }) as any;
+
+            const operation = result.paths['/pets/{id}'].put;
+            assert.deepEqual(operation.requestBody, {
+                description: 'the pet',
+                required: true,
+                content: { 'application/vnd.pet+json': { schema: { $ref: '#/components/schemas/Pet' } } }
+            });
+            assert.deepEqual(operation.parameters, [
+                { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+                { name: 'tags', in: 'query', style: 'form', explode: true, schema: { type: 'array', items: { type: 'string' } } }
+            ]);
+        });
+
+        it('should convert formData parameters to a form requestBody', () => {
+            const result = convertSwagger2ToOpenApi3({
+                swagger: '2.0',
+                info: { title: 'Test', version: '1.0.0' },
+                paths: {
+                    '/upload': {
+                        post: {
+                            parameters: [
+                                { name: 'file', in: 'formData', required: true, type: 'file' },
+                                { name: 'note', in: 'formData', type: 'string', description: 'a note' }
+                            ],
+                            responses: { '200': { description: 'ok' } }
+                        }
+                    },
+                    '/login': {
+                        post: {
+                            parameters: [{ $ref: '#/parameters/Username' }],
+                            responses: { '200': { description: 'ok' } }
+                        }
+                    }
+                },
+                parameters: {
+                    Username: { name: 'username', in: 'formData', type: 'string' },
+                    Limit: { name: 'limit', in: 'query', type: 'integer' }
+                }
+            }) as any;
+
+            assert.deepEqual(result.paths['/upload'].post.requestBody, {
+                required: true,
+                content: {
+                    'multipart/form-data': {
+                        schema: {
+                            type: 'object',
+                            properties: {
+                                file: { type: 'string', format: 'binary', description: undefined },
+                                note: { type: 'string', description: 'a note' }
+                            },
+                            required: ['file']
+                        }
+                    }
+                }
+            });
+            // global formData parameters are inlined, other global parameters move to components
+            assert.ok(result.paths['/login'].post.requestBody.content['application/x-www-form-urlencoded']);
+            assert.deepEqual(result.paths['/login'].post.parameters, []);
+            assert.deepEqual(Object.keys(result.components.parameters), ['Limit']);
+        });
+
+        it('should convert security definitions', () => {
+            const result = convertSwagger2ToOpenApi3({
+                swagger: '2.0',
+                info: { title: 'Test', version: '1.0.0' },
+                paths: {},
+                securityDefinitions: {
+                    basic: { type: 'basic' },
+                    key: { type: 'apiKey', name: 'X-Key', in: 'header' },
+                    oauth: { type: 'oauth2', flow: 'application', tokenUrl: 'https://auth.example.com/token', scopes: { read: 'read' } }
+                }
+            }) as any;
+
+            assert.deepEqual(result.components.securitySchemes, {
+                basic: { type: 'http', scheme: 'basic' },
+                key: { type: 'apiKey', name: 'X-Key', in: 'header' },
+                oauth: {
+                    type: 'oauth2',
+                    flows: { clientCredentials: { authorizationUrl: undefined, tokenUrl: 'https://auth.example.com/token', scopes: { read: 'read' } } }
+                }
+            });
+        });
+    });
+});
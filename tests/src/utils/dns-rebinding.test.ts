@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { getAllowedHosts, getAllowedOrigins, getDnsRebindingViolation } from '../../../src/utils/dns-rebinding';
+
+describe('DNS Rebinding', () => {
+    describe('getAllowedHosts', () => {
+        it('should allow the loopback names and the bound host on the port', () => {
+            assert.deepEqual(getAllowedHosts('127.0.0.1', 3000), ['localhost:3000', '127.0.0.1:3000', '[::1]:3000']);
+            assert.deepEqual(getAllowedHosts('::1', 3000), ['localhost:3000', '127.0.0.1:3000', '[::1]:3000']);
+            assert.deepEqual(getAllowedHosts('mcp.internal', 3000), ['localhost:3000', '127.0.0.1:3000', '[::1]:3000', 'mcp.internal:3000']);
+        });
+
+        it('should not allow wildcard addresses, but the extra hosts', () => {
+            assert.deepEqual(
+                getAllowedHosts('0.0.0.0', 80, ['MCP.example.com', 'proxy:8080']),
+                ['localhost:80', 'localhost', '127.0.0.1:80', '127.0.0.1', '[::1]:80', '[::1]', 'mcp.example.com:80', 'mcp.example.com', 'proxy:8080']
+            );
+        });
+    });
+
+    describe('getAllowedOrigins', () => {
+        it('should allow the origins of the allowed hosts and the extra origins', () => {
+            assert.deepEqual(
+                getAllowedOrigins(['localhost:3000'], ['https://App.example.com/']),
+                ['http://localhost:3000', 'https://app.example.com']
+            );
+        });
+    });
+
+    describe('getDnsRebindingViolation', () => {
+        const options = { allowedHosts: ['localhost:3000'], allowedOrigins: ['http://localhost:3000'] };
+
+        it('should accept requests for allowed hosts, from allowed origins or without an origin', () => {
+            assert.equal(getDnsRebindingViolation({ host: 'localhost:3000' }, options), undefined);
+            assert.equal(getDnsRebindingViolation({ host: 'LOCALHOST:3000', origin: 'http://localhost:3000' }, options), undefined);
+        });
+
+        it('should refuse other hosts and origins', () => {
+            assert.equal(getDnsRebindingViolation({ host: 'attacker.example:3000' }, options), 'Invalid Host header: attacker.example:3000');
+            assert.equal(getDnsRebindingViolation({}, options), 'Invalid Host header: undefined');
+            assert.equal(
+                getDnsRebindingViolation({ host: 'localhost:3000', origin: 'http://attacker.example' }, options),
+                'Invalid Origin header: http://attacker.example'
+            );
+        });
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import * as sinon from 'sinon';
+import { getDryRunRequest, toCurlCommand } from '../../../src/utils/dry-run';
+import logger from '../../../src/utils/logger';
+
+describe('Dry Run', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    beforeEach(() => {
+        sandbox = sinon.createSandbox();
+        // Silence logger during tests
+        sandbox.stub(logger, 'debug');
+        sandbox.stub(logger, 'info');
+        sandbox.stub(logger, 'warn');
+        sandbox.stub(logger, 'error');
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe('getDryRunRequest', () => {
+        it('should redact secrets in headers and query parameters', () => {
+            const request = getDryRunRequest({
+                method: 'get',
+                url: 'https://api.example.com/pets?api_key=abc&tags%5B%5D=cat&access_token=xyz',
+                headers: { Authorization: 'Bearer abc', 'X-API-Key': 'abc', Cookie: 'session=1', 'X-Request-Id': '42' }
+            });
+
+            assert.deepEqual(request, {
+                method: 'GET',
+                url: 'https://api.example.com/pets?api_key=[REDACTED]&tags%5B%5D=cat&access_token=[REDACTED]',
+                headers: { Authorization: '[REDACTED]', 'X-API-Key': '[REDACTED]', Cookie: '[REDACTED]', 'X-Request-Id': '42' }
+            });
+        });
+
+        it('should redact vendor credential names but not similar names', () => {
+            const request = getDryRunRequest({
+                method: 'get',
+                url: 'https://api.example.com/books?access_key=abc&auth=xyz&author=Tolkien',
+                headers: { 'X-Auth-Key': 'abc', 'X-Auth-Email': 'me@example.com', 'Ocp-Apim-Subscription-Key': 'abc' }
+            });
+
+            assert.equal(request.url, 'https://api.example.com/books?access_key=[REDACTED]&auth=[REDACTED]&author=Tolkien');
+            assert.deepEqual(request.headers, { 'X-Auth-Key': '[REDACTED]', 'X-Auth-Email': '[REDACTED]', 'Ocp-Apim-Subscription-Key': '[REDACTED]' });
+        });
+
+        it('should redact the configured secrets whatever their name', () => {
+            const request = getDryRunRequest({
+                method: 'get',
+                url: 'https://api.example.com/pets?tenant=s3cr%65t&limit=10',
+                headers: { 'X-Tenant': 's3cret', 'X-Request-Id': '42' },
+                secrets: ['s3cret', '']
+            });
+
+            assert.equal(request.url, 'https://api.example.com/pets?tenant=[REDACTED]&limit=10');
+            assert.deepEqual(request.headers, { 'X-Tenant': '[REDACTED]', 'X-Request-Id': '42' });
+        });
+
+        it('should serialize bodies the way they are sent', () => {
+            const json = getDryRunRequest({ method: 'POST', url: 'https://api.example.com/pets', headers: {}, data: { name: 'Rex' } });
+            assert.equal(json.body, '{"name":"Rex"}');
+            assert.equal(json.headers['Content-Type'], 'application/json');
+
+            const form = getDryRunRequest({
+                method: 'POST',
+                url: 'https://api.example.com/token',
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                data: { grant_type: 'client_credentials', scope: 'read write' }
+            });
+            assert.equal(form.body, 'grant_type=client_credentials&scope=read+write');
+        });
+    });
+
+    describe('toCurlCommand', () => {
+        it('should quote the URL, headers and body for the shell', () => {
+            const command = toCurlCommand({
+                method: 'PUT',
+                url: 'https://api.example.com/pets/7',
+                headers: { 'Content-Type': 'application/json' },
+                body: `{"name":"Rex's"}`
+            });
+
+            assert.equal(
+                command,
+                `curl -X PUT 'https://api.example.com/pets/7' -H 'Content-Type: application/json' --data-raw '{"name":"Rex'\\''s"}'`
+            );
+        });
+
+        it('should turn off URL globbing and send multipart bodies as form fields', () => {
+            const command = toCurlCommand({
+                method: 'POST',
+                url: 'https://api.example.com/pets?tags[]=cat',
+                headers: { 'Content-Type': 'multipart/form-data' },
+                body: '{"name":"Rex"}'
+            }, { name: 'Rex', age: 3 });
+
+            assert.equal(command, `curl -X POST --globoff 'https://api.example.com/pets?tags[]=cat' -F 'name=Rex' -F 'age=3'`);
+        });
+    });
+});
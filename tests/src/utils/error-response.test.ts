@@ -0,0 +1,97 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import * as sinon from 'sinon';
+import { summarizeErrorResponse } from '../../../src/utils/error-response';
+import logger from '../../../src/utils/logger';
+
+describe('Error Response', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    beforeEach(() => {
+        sandbox = sinon.createSandbox();
+        // Silence logger during tests
+        sandbox.stub(logger, 'debug');
+        sandbox.stub(logger, 'info');
+        sandbox.stub(logger, 'warn');
+        sandbox.stub(logger, 'error');
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe('summarizeErrorResponse', () => {
+        it('should summarize RFC 7807 problem details with invalid params', () => {
+            const summary = summarizeErrorResponse(400, 'application/problem+json', {
+                type: 'https://example.net/validation-error',
+                title: "Your request parameters didn't validate.",
+                'invalid-params': [
+                    { name: 'age', reason: 'must be a positive integer' },
+                    { name: 'color', reason: "must be 'green', 'red' or 'blue'" }
+                ]
+            });
+
+            assert.equal(
+                summary,
+                "HTTP 400 Bad Request: Your request parameters didn't validate. (age: must be a positive integer; color: must be 'green', 'red' or 'blue')"
+            );
+        });
+
+        it('should combine the problem title and detail without repeating the status', () => {
+            const summary = summarizeErrorResponse(403, 'application/problem+json; charset=utf-8', JSON.stringify({
+                type: 'about:blank',
+                title: 'Forbidden',
+                detail: 'Your current balance is 30, but that costs 50.'
+            }));
+
+            assert.equal(summary, 'HTTP 403 Forbidden: Your current balance is 30, but that costs 50.');
+            assert.equal(summarizeErrorResponse(404, 'application/json', { error: 'Not Found' }), 'HTTP 404 Not Found');
+        });
+
+        it('should summarize common error envelopes', () => {
+            assert.equal(
+                summarizeErrorResponse(404, 'application/json', { error: { code: 404, message: 'Pet not found' } }),
+                'HTTP 404 Not Found: Pet not found'
+            );
+            assert.equal(
+                summarizeErrorResponse(401, 'application/json', { error: 'invalid_token', error_description: 'The token expired' }),
+                'HTTP 401 Unauthorized: The token expired'
+            );
+            assert.equal(
+                summarizeErrorResponse(422, 'application/json', {
+                    detail: [{ loc: ['body', 'name'], msg: 'field required', type: 'value_error.missing' }]
+                }),
+                'HTTP 422 Unprocessable Entity: body.name: field required'
+            );
+            assert.equal(
+                summarizeErrorResponse(422, 'application/vnd.api+json', {
+                    errors: [{ title: 'Invalid Attribute', detail: 'must be at least 3 characters', source: { pointer: '/data/attributes/name' } }]
+                }),
+                'HTTP 422 Unprocessable Entity: /data/attributes/name: must be at least 3 characters'
+            );
+            assert.equal(
+                summarizeErrorResponse(422, 'application/json', { message: 'Validation failed', errors: { name: ["can't be blank"] } }),
+                "HTTP 422 Unprocessable Entity: Validation failed (name: can't be blank)"
+            );
+            assert.equal(
+                summarizeErrorResponse(400, 'application/json', {
+                    error: {
+                        message: 'Invalid request',
+                        details: [{ fieldViolations: [{ field: 'pageSize', description: 'must be at most 100' }] }]
+                    }
+                }),
+                'HTTP 400 Bad Request: Invalid request (pageSize: must be at most 100)'
+            );
+        });
+
+        it('should fall back to the status and truncated text bodies', () => {
+            assert.equal(summarizeErrorResponse(503, 'application/json', undefined), 'HTTP 503 Service Unavailable');
+            assert.equal(summarizeErrorResponse(599, 'application/json', {}), 'HTTP 599');
+
+            const summary = summarizeErrorResponse(500, 'text/plain', 'x'.repeat(1000));
+            assert.equal(summary.length, 500);
+            assert.ok(summary.startsWith('HTTP 500 Internal Server Error: xxx'));
+            assert.ok(summary.endsWith('...'));
+        });
+    });
+});
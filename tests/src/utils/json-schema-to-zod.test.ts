@@ -1,7 +1,9 @@
 import { describe, it } from 'node:test';
 import { strict as assert } from 'node:assert';
+import * as sinon from 'sinon';
 import { z } from 'zod';
 import { openAPISchemaToZod } from '../../../src/utils/json-shchema-to-zod';
+import logger from '../../../src/utils/logger';
 import { OpenAPIV3 } from 'openapi-client-axios';
 
 describe('JSON Schema to Zod Converter', () => {
@@ -148,7 +150,94 @@ describe('JSON Schema to Zod Converter', () => {
             assert.throws(() => zodSchema.parse('not an array'));
         });
         
-        it('should convert date-time format correctly', () => {
+        it('should convert arrays of strings', () => {
+            const zodSchema = openAPISchemaToZod({ type: 'array', items: { type: 'string' } });
+
+            assert.equal(zodSchema._def.typeName, z.ZodArray.name);
+            assert.deepEqual(zodSchema.parse(['a', 'b']), ['a', 'b']);
+            assert.throws(() => zodSchema.parse([1, 2]));
+        });
+
+        it('should convert arrays of numbers', () => {
+            const zodSchema = openAPISchemaToZod({ type: 'array', items: { type: 'integer', minimum: 0 } });
+
+            assert.doesNotThrow(() => zodSchema.parse([0, 1, 2]));
+            assert.throws(() => zodSchema.parse([1.5]));
+            assert.throws(() => zodSchema.parse([-1]));
+            assert.throws(() => zodSchema.parse(['1']));
+        });
+
+        it('should convert arrays of enums', () => {
+            const zodSchema = openAPISchemaToZod({
+                type: 'array',
+                items: { type: 'string', enum: ['red', 'green'] }
+            });
+
+            assert.doesNotThrow(() => zodSchema.parse(['red', 'green']));
+            assert.throws(() => zodSchema.parse(['blue']));
+        });
+
+        it('should convert nested arrays', () => {
+            const zodSchema = openAPISchemaToZod({
+                type: 'array',
+                items: { type: 'array', items: { type: 'number' } }
+            });
+
+            assert.doesNotThrow(() => zodSchema.parse([[1, 2], [3]]));
+            assert.throws(() => zodSchema.parse([1, 2]));
+            assert.throws(() => zodSchema.parse([['1']]));
+        });
+
+        it('should convert arrays of referenced objects', () => {
+            // $refs are already dereferenced by the OpenAPI client, so the items are the referenced object
+            const pet: OpenAPIV3.SchemaObject = {
+                type: 'object',
+                properties: { name: { type: 'string' }, age: { type: 'integer' } },
+                required: ['name']
+            };
+            const zodSchema = openAPISchemaToZod({ type: 'array', items: pet });
+
+            assert.doesNotThrow(() => zodSchema.parse([{ name: 'Rex' }, { name: 'Tom', age: 2 }]));
+            assert.throws(() => zodSchema.parse([{ age: 2 }]));
+            assert.throws(() => zodSchema.parse(['Rex']));
+        });
+
+        it('should enforce minItems and maxItems', () => {
+            const zodSchema = openAPISchemaToZod({
+                type: 'array',
+                items: { type: 'string' },
+                minItems: 1,
+                maxItems: 2
+            });
+
+            assert.doesNotThrow(() => zodSchema.parse(['a']));
+            assert.doesNotThrow(() => zodSchema.parse(['a', 'b']));
+            assert.throws(() => zodSchema.parse([]));
+            assert.throws(() => zodSchema.parse(['a', 'b', 'c']));
+        });
+
+        it('should enforce uniqueItems', () => {
+            const zodSchema = openAPISchemaToZod({
+                type: 'array',
+                items: { type: 'object', properties: { id: { type: 'integer' } } },
+                uniqueItems: true,
+                description: 'Unique items'
+            });
+
+            assert.equal(zodSchema.description, 'Unique items');
+            assert.doesNotThrow(() => zodSchema.parse([{ id: 1 }, { id: 2 }]));
+            assert.throws(() => zodSchema.parse([{ id: 1 }, { id: 1 }]));
+        });
+
+        it('should accept any items when items is missing', () => {
+            // @ts-expect-error - items is required by the typings but often missing in real specs
+            const zodSchema = openAPISchemaToZod({ type: 'array' });
+
+            assert.doesNotThrow(() => zodSchema.parse([1, 'a', { b: true }]));
+            assert.throws(() => zodSchema.parse('not an array'));
+        });
+        
+        it('should keep date-time as a validated string', () => {
             const schema: OpenAPIV3.SchemaObject = {
                 type: 'string',
                 format: 'date-time',
@@ -157,10 +246,10 @@ describe('JSON Schema to Zod Converter', () => {
             
             const zodSchema = openAPISchemaToZod(schema);
             
-            // Verify validation transforms string to Date
-            const result = zodSchema.parse('2023-01-01T12:00:00Z');
-            assert.ok(result instanceof Date);
-            assert.equal(result.toISOString(), '2023-01-01T12:00:00.000Z');
+            // The value is sent to the API as given, not converted to a Date
+            assert.equal(zodSchema.parse('2023-01-01T12:00:00Z'), '2023-01-01T12:00:00Z');
+            assert.equal(zodSchema.parse('2023-01-01T12:00:00+02:00'), '2023-01-01T12:00:00+02:00');
+            assert.throws(() => zodSchema.parse('yesterday'));
         });
         
         it('should throw error for unsupported type', () => {
@@ -173,4 +262,485 @@ describe('JSON Schema to Zod Converter', () => {
             assert.throws(() => openAPISchemaToZod(schema), /Unsupported type/);
         });
     });
-});
\ No newline at end of file
+
+    describe('schema composition', () => {
+        const cat: OpenAPIV3.SchemaObject = {
+            type: 'object',
+            title: 'Cat',
+            properties: { petType: { type: 'string' }, meows: { type: 'boolean' } },
+            required: ['petType', 'meows']
+        };
+        const dog: OpenAPIV3.SchemaObject = {
+            type: 'object',
+            title: 'Dog',
+            properties: { petType: { type: 'string' }, barks: { type: 'boolean' } },
+            required: ['petType', 'barks']
+        };
+
+        it('should merge allOf object members into a single object', () => {
+            const schema: OpenAPIV3.SchemaObject = {
+                description: 'A named pet',
+                allOf: [
+                    { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+                    { type: 'object', properties: { age: { type: 'integer' } }, required: ['age'] }
+                ]
+            };
+
+            const zodSchema = openAPISchemaToZod(schema);
+
+            assert.equal(zodSchema._def.typeName, z.ZodObject.name);
+            assert.equal(zodSchema.description, 'A named pet');
+            assert.deepEqual(zodSchema.parse({ name: 'Rex', age: 3 }), { name: 'Rex', age: 3 });
+            assert.throws(() => zodSchema.parse({ name: 'Rex' })); // Missing age from second member
+        });
+
+        it('should treat properties next to allOf as another member', () => {
+            const schema: OpenAPIV3.SchemaObject = {
+                allOf: [{ type: 'object', properties: { name: { type: 'string' } }, required: ['name'] }],
+                properties: { id: { type: 'integer' } },
+                required: ['id']
+            };
+
+            const zodSchema = openAPISchemaToZod(schema);
+
+            assert.doesNotThrow(() => zodSchema.parse({ name: 'Rex', id: 1 }));
+            assert.throws(() => zodSchema.parse({ name: 'Rex' }));
+        });
+
+        it('should intersect non-object allOf members', () => {
+            const schema: OpenAPIV3.SchemaObject = {
+                allOf: [{ type: 'number', minimum: 0 }, { type: 'number', maximum: 10 }]
+            };
+
+            const zodSchema = openAPISchemaToZod(schema);
+
+            assert.equal(zodSchema._def.typeName, z.ZodIntersection.name);
+            assert.doesNotThrow(() => zodSchema.parse(5));
+            assert.throws(() => zodSchema.parse(11));
+        });
+
+        it('should convert oneOf and anyOf to unions', () => {
+            const oneOf = openAPISchemaToZod({ oneOf: [{ type: 'string' }, { type: 'integer' }] });
+            const anyOf = openAPISchemaToZod({ anyOf: [{ type: 'string' }, { type: 'boolean' }] });
+
+            assert.equal(oneOf._def.typeName, z.ZodUnion.name);
+            assert.doesNotThrow(() => oneOf.parse('text'));
+            assert.doesNotThrow(() => oneOf.parse(1));
+            assert.throws(() => oneOf.parse(true));
+            assert.doesNotThrow(() => anyOf.parse(true));
+            assert.throws(() => anyOf.parse(1));
+        });
+
+        it('should convert oneOf with a discriminator mapping to a discriminated union', () => {
+            const schema: OpenAPIV3.SchemaObject = {
+                oneOf: [cat, dog],
+                discriminator: {
+                    propertyName: 'petType',
+                    mapping: { cat: '#/components/schemas/Cat', dog: '#/components/schemas/Dog' }
+                }
+            };
+
+            const zodSchema = openAPISchemaToZod(schema);
+
+            assert.equal(zodSchema._def.typeName, z.ZodDiscriminatedUnion.name);
+            assert.doesNotThrow(() => zodSchema.parse({ petType: 'cat', meows: true }));
+            assert.doesNotThrow(() => zodSchema.parse({ petType: 'dog', barks: false }));
+            assert.throws(() => zodSchema.parse({ petType: 'cat', barks: true })); // Cat without meows
+            assert.throws(() => zodSchema.parse({ petType: 'bird', meows: true }));
+        });
+
+        it('should resolve discriminator mappings against the component schemas without titles', () => {
+            // dereferenced specs point at the component schema objects themselves, which have no title
+            const schemas: Record<string, OpenAPIV3.SchemaObject> = {
+                Cat: { ...cat, title: undefined },
+                Dog: { ...dog, title: undefined },
+            };
+            const mapped = openAPISchemaToZod({
+                oneOf: [schemas.Cat, schemas.Dog],
+                discriminator: { propertyName: 'petType', mapping: { cat: '#/components/schemas/Cat', dog: 'Dog' } }
+            }, { schemas });
+            const implicit = openAPISchemaToZod({
+                oneOf: [schemas.Cat, schemas.Dog],
+                discriminator: { propertyName: 'petType' }
+            }, { schemas });
+
+            assert.equal(mapped._def.typeName, z.ZodDiscriminatedUnion.name);
+            assert.doesNotThrow(() => mapped.parse({ petType: 'cat', meows: true }));
+            assert.doesNotThrow(() => mapped.parse({ petType: 'dog', barks: false }));
+            assert.throws(() => mapped.parse({ petType: 'cat', barks: true }));
+            assert.equal(implicit._def.typeName, z.ZodDiscriminatedUnion.name);
+            assert.doesNotThrow(() => implicit.parse({ petType: 'Cat', meows: true }));
+            assert.throws(() => implicit.parse({ petType: 'cat', meows: true }));
+        });
+
+        it('should use discriminator values from property enums', () => {
+            const schema: OpenAPIV3.SchemaObject = {
+                anyOf: [
+                    { type: 'object', properties: { kind: { type: 'string', enum: ['a'] } }, required: ['kind'] },
+                    { type: 'object', properties: { kind: { type: 'string', enum: ['b'] }, extra: { type: 'string' } }, required: ['kind', 'extra'] }
+                ],
+                discriminator: { propertyName: 'kind' }
+            };
+
+            const zodSchema = openAPISchemaToZod(schema);
+
+            assert.equal(zodSchema._def.typeName, z.ZodDiscriminatedUnion.name);
+            assert.doesNotThrow(() => zodSchema.parse({ kind: 'a' }));
+            assert.throws(() => zodSchema.parse({ kind: 'b' })); // Missing extra
+        });
+
+        it('should fall back to a plain union when discriminator values are unknown', () => {
+            const schema: OpenAPIV3.SchemaObject = {
+                oneOf: [{ ...cat, title: undefined }, { ...dog, title: undefined }],
+                discriminator: { propertyName: 'petType' }
+            };
+
+            const zodSchema = openAPISchemaToZod(schema);
+
+            assert.equal(zodSchema._def.typeName, z.ZodUnion.name);
+            assert.doesNotThrow(() => zodSchema.parse({ petType: 'anything', barks: true }));
+        });
+
+        it('should fall back to a plain union when discriminator values overlap', () => {
+            const schema: OpenAPIV3.SchemaObject = {
+                anyOf: [
+                    { type: 'object', properties: { kind: { type: 'string', enum: ['a', 'b'] } }, required: ['kind'] },
+                    { type: 'object', properties: { kind: { type: 'string', enum: ['b'] }, extra: { type: 'string' } }, required: ['kind', 'extra'] }
+                ],
+                discriminator: { propertyName: 'kind' }
+            };
+
+            const zodSchema = openAPISchemaToZod(schema);
+
+            assert.equal(zodSchema._def.typeName, z.ZodUnion.name);
+            assert.doesNotThrow(() => zodSchema.parse({ kind: 'b' }));
+            assert.doesNotThrow(() => zodSchema.parse({ kind: 'b', extra: 'x' }));
+            assert.throws(() => zodSchema.parse({ kind: 'c' }));
+        });
+
+        it('should reject values matching a not schema', () => {
+            const zodSchema = openAPISchemaToZod({ type: 'string', not: { type: 'string', enum: ['admin'] } });
+
+            assert.doesNotThrow(() => zodSchema.parse('user'));
+            assert.throws(() => zodSchema.parse('admin'));
+        });
+
+        it('should infer object type from properties and accept anything without a type', () => {
+            const inferred = openAPISchemaToZod({ properties: { name: { type: 'string' } } });
+            const untyped = openAPISchemaToZod({ description: 'Anything' });
+
+            assert.equal(inferred._def.typeName, z.ZodObject.name);
+            assert.equal(untyped._def.typeName, z.ZodAny.name);
+            assert.doesNotThrow(() => untyped.parse({ any: 'value' }));
+        });
+    });
+
+    describe('constraints and formats', () => {
+        it('should enforce string length and pattern', () => {
+            const zodSchema = openAPISchemaToZod({
+                type: 'string',
+                minLength: 2,
+                maxLength: 4,
+                pattern: '^[a-z]+$'
+            });
+
+            assert.doesNotThrow(() => zodSchema.parse('abc'));
+            assert.throws(() => zodSchema.parse('a'));
+            assert.throws(() => zodSchema.parse('abcde'));
+            assert.throws(() => zodSchema.parse('AB1'));
+        });
+
+        it('should accept identity escapes that unicode patterns reject', () => {
+            const phone = openAPISchemaToZod({ type: 'string', pattern: '^\\d{3}\\-\\d{4}$' });
+            const identifier = openAPISchemaToZod({ type: 'string', pattern: '^[a-z\\_]+$' });
+
+            assert.doesNotThrow(() => phone.parse('555-1234'));
+            assert.throws(() => phone.parse('5551234'));
+            assert.doesNotThrow(() => identifier.parse('snake_case'));
+            assert.throws(() => identifier.parse('kebab-case'));
+        });
+
+        it('should ignore and log patterns JavaScript cannot compile', () => {
+            const warn = sinon.stub(logger, 'warn');
+            try {
+                const zodSchema = openAPISchemaToZod({ type: 'string', pattern: '(?<' });
+
+                assert.doesNotThrow(() => zodSchema.parse('anything'));
+                assert.equal(warn.callCount, 1);
+            } finally {
+                warn.restore();
+            }
+        });
+
+        it('should validate string formats', () => {
+            const cases: [string, string, string][] = [
+                ['email', 'user@example.com', 'not-an-email'],
+                ['uuid', '123e4567-e89b-12d3-a456-426614174000', '1234'],
+                ['uri', 'https://example.com/path', 'example'],
+                ['date', '2024-02-29', '2024-13-01'],
+                ['ipv4', '192.168.0.1', '999.1.1.1'],
+                ['ipv6', '::1', '192.168.0.1'],
+                ['byte', 'aGVsbG8=', 'not base64!'],
+            ];
+
+            for (const [format, valid, invalid] of cases) {
+                const zodSchema = openAPISchemaToZod({ type: 'string', format });
+                assert.doesNotThrow(() => zodSchema.parse(valid), `${format} should accept ${valid}`);
+                assert.throws(() => zodSchema.parse(invalid), `${format} should reject ${invalid}`);
+            }
+        });
+
+        it('should leave unknown formats unchecked', () => {
+            const zodSchema = openAPISchemaToZod({ type: 'string', format: 'password' });
+
+            assert.doesNotThrow(() => zodSchema.parse('secret'));
+        });
+
+        it('should enforce exclusive bounds and multipleOf', () => {
+            const zodSchema = openAPISchemaToZod({
+                type: 'number',
+                minimum: 0,
+                exclusiveMinimum: true,
+                maximum: 10,
+                exclusiveMaximum: true,
+                multipleOf: 0.5
+            });
+
+            assert.doesNotThrow(() => zodSchema.parse(0.5));
+            assert.doesNotThrow(() => zodSchema.parse(9.5));
+            assert.throws(() => zodSchema.parse(0));
+            assert.throws(() => zodSchema.parse(10));
+            assert.throws(() => zodSchema.parse(1.25));
+        });
+
+        it('should accept null for nullable schemas', () => {
+            const nullableString = openAPISchemaToZod({ type: 'string', nullable: true, description: 'Nickname' });
+            const nullableObject = openAPISchemaToZod({
+                type: 'object',
+                nullable: true,
+                properties: { name: { type: 'string' } }
+            });
+
+            assert.equal(nullableString._def.typeName, z.ZodNullable.name);
+            assert.equal(nullableString.description, 'Nickname');
+            assert.equal(nullableString.parse(null), null);
+            assert.equal(nullableObject.parse(null), null);
+            assert.throws(() => openAPISchemaToZod({ type: 'string' }).parse(null));
+        });
+
+        it('should apply default values', () => {
+            const zodSchema = openAPISchemaToZod({ type: 'integer', default: 20, description: 'Page size' });
+
+            assert.equal(zodSchema._def.typeName, z.ZodDefault.name);
+            assert.equal(zodSchema.description, 'Page size');
+            assert.equal(zodSchema.parse(undefined), 20);
+            assert.equal(zodSchema.parse(5), 5);
+        });
+
+        it('should apply the defaults of optional properties', () => {
+            const zodSchema = openAPISchemaToZod({
+                type: 'object',
+                properties: { limit: { type: 'integer', default: 20 }, name: { type: 'string' } }
+            });
+
+            assert.deepEqual(zodSchema.parse({}), { limit: 20 });
+            assert.deepEqual(zodSchema.parse({ limit: 5, name: 'Rex' }), { limit: 5, name: 'Rex' });
+        });
+    });
+
+    describe('objects, maps and recursion', () => {
+        it('should convert additionalProperties schemas without properties to records', () => {
+            const zodSchema = openAPISchemaToZod({
+                type: 'object',
+                additionalProperties: { type: 'integer' },
+                description: 'Stock per warehouse'
+            });
+
+            assert.equal(zodSchema._def.typeName, z.ZodRecord.name);
+            assert.equal(zodSchema.description, 'Stock per warehouse');
+            assert.deepEqual(zodSchema.parse({ north: 1, south: 2 }), { north: 1, south: 2 });
+            assert.throws(() => zodSchema.parse({ north: 'many' }));
+        });
+
+        it('should validate extra keys against additionalProperties next to properties', () => {
+            const zodSchema = openAPISchemaToZod({
+                type: 'object',
+                properties: { name: { type: 'string' } },
+                required: ['name'],
+                additionalProperties: { type: 'string' }
+            });
+
+            assert.deepEqual(zodSchema.parse({ name: 'a', label: 'b' }), { name: 'a', label: 'b' });
+            assert.throws(() => zodSchema.parse({ name: 'a', count: 1 }));
+        });
+
+        it('should keep unknown keys for free-form objects', () => {
+            const freeForm = openAPISchemaToZod({ type: 'object' });
+            const explicit = openAPISchemaToZod({
+                type: 'object',
+                properties: { name: { type: 'string' } },
+                additionalProperties: true
+            });
+
+            assert.deepEqual(freeForm.parse({ any: { nested: 'value' } }), { any: { nested: 'value' } });
+            assert.deepEqual(explicit.parse({ name: 'a', extra: 1 }), { name: 'a', extra: 1 });
+        });
+
+        it('should reject unknown keys when additionalProperties is false', () => {
+            const zodSchema = openAPISchemaToZod({
+                type: 'object',
+                properties: { name: { type: 'string' } },
+                additionalProperties: false
+            });
+
+            assert.doesNotThrow(() => zodSchema.parse({ name: 'a' }));
+            assert.throws(() => zodSchema.parse({ name: 'a', extra: 1 }));
+        });
+
+        it('should strip unknown keys when additionalProperties is not set', () => {
+            const zodSchema = openAPISchemaToZod({
+                type: 'object',
+                properties: { name: { type: 'string' } }
+            });
+
+            assert.deepEqual(zodSchema.parse({ name: 'a', extra: 1 }), { name: 'a' });
+        });
+
+        it('should convert self-referencing schemas with lazy schemas', () => {
+            // A dereferenced spec points back to the same schema object
+            const replies: OpenAPIV3.ArraySchemaObject = { type: 'array', items: {} };
+            const comment: OpenAPIV3.SchemaObject = {
+                type: 'object',
+                properties: { text: { type: 'string' }, replies },
+                required: ['text']
+            };
+            replies.items = comment;
+
+            const zodSchema = openAPISchemaToZod(comment);
+
+            const thread = { text: 'a', replies: [{ text: 'b', replies: [{ text: 'c', replies: [] }] }] };
+            assert.deepEqual(zodSchema.parse(thread), thread);
+            assert.throws(() => zodSchema.parse({ text: 'a', replies: [{ replies: [] }] }));
+        });
+
+        it('should convert mutually recursive schemas', () => {
+            const employeeProperties: Record<string, OpenAPIV3.SchemaObject> = { name: { type: 'string' } };
+            const employee: OpenAPIV3.SchemaObject = { type: 'object', properties: employeeProperties };
+            const team: OpenAPIV3.SchemaObject = { type: 'object', properties: { lead: employee } };
+            employeeProperties.team = team;
+
+            const zodSchema = openAPISchemaToZod(team);
+
+            assert.doesNotThrow(() => zodSchema.parse({ lead: { name: 'a', team: { lead: { name: 'b' } } } }));
+            assert.throws(() => zodSchema.parse({ lead: { name: 1 } }));
+        });
+
+        it('should emit permissive schemas beyond the maximum depth', () => {
+            const schema: OpenAPIV3.SchemaObject = {
+                type: 'object',
+                properties: {
+                    level1: {
+                        type: 'object',
+                        properties: {
+                            level2: {
+                                type: 'object',
+                                properties: { value: { type: 'integer' } }
+                            },
+                            tags: { type: 'array', items: { type: 'string' } },
+                            name: { type: 'string' }
+                        }
+                    }
+                }
+            };
+
+            const limited = openAPISchemaToZod(schema, { maxDepth: 2 });
+            const unlimited = openAPISchemaToZod(schema);
+
+            const value = { level1: { level2: { value: 'not a number' }, tags: [1], name: 'a' } };
+            assert.deepEqual(limited.parse(value), value);
+            assert.throws(() => limited.parse({ level1: { name: 1 } })); // Primitives are still checked
+            assert.throws(() => unlimited.parse(value));
+        });
+    });
+
+    describe('OpenAPI 3.1 keywords', () => {
+        // 3.1 schemas are not covered by the 3.0 typings, so fixtures are cast
+        const schema31 = (schema: Record<string, unknown>) => schema as unknown as OpenAPIV3.SchemaObject;
+
+        it('should convert a type list with null to a nullable schema', () => {
+            const zodSchema = openAPISchemaToZod(schema31({ type: ['string', 'null'], minLength: 2 }));
+
+            assert.equal(zodSchema._def.typeName, z.ZodNullable.name);
+            assert.equal(zodSchema.parse(null), null);
+            assert.equal(zodSchema.parse('ab'), 'ab');
+            assert.throws(() => zodSchema.parse('a'));
+            assert.throws(() => zodSchema.parse(1));
+        });
+
+        it('should convert a list of several types to a union', () => {
+            const zodSchema = openAPISchemaToZod(schema31({ type: ['integer', 'string'] }));
+
+            assert.doesNotThrow(() => zodSchema.parse(1));
+            assert.doesNotThrow(() => zodSchema.parse('1'));
+            assert.throws(() => zodSchema.parse(null));
+            assert.throws(() => zodSchema.parse(1.5));
+        });
+
+        it('should convert the null type', () => {
+            const zodSchema = openAPISchemaToZod(schema31({ type: 'null' }));
+
+            assert.equal(zodSchema.parse(null), null);
+            assert.throws(() => zodSchema.parse('null'));
+        });
+
+        it('should convert const values', () => {
+            const primitive = openAPISchemaToZod(schema31({ const: 'v1', description: 'API version' }));
+            const object = openAPISchemaToZod(schema31({ const: { mode: 'strict' } }));
+
+            assert.equal(primitive._def.typeName, z.ZodLiteral.name);
+            assert.equal(primitive.description, 'API version');
+            assert.equal(primitive.parse('v1'), 'v1');
+            assert.throws(() => primitive.parse('v2'));
+            assert.doesNotThrow(() => object.parse({ mode: 'strict' }));
+            assert.throws(() => object.parse({ mode: 'lenient' }));
+        });
+
+        it('should convert prefixItems to tuples', () => {
+            const closed = openAPISchemaToZod(schema31({
+                type: 'array',
+                prefixItems: [{ type: 'number' }, { type: 'number' }],
+                items: false
+            }));
+            const open = openAPISchemaToZod(schema31({
+                prefixItems: [{ type: 'string' }],
+                items: { type: 'integer' }
+            }));
+
+            assert.equal(closed._def.typeName, z.ZodTuple.name);
+            assert.doesNotThrow(() => closed.parse([1.5, 2]));
+            assert.throws(() => closed.parse([1, 2, 3]));
+            assert.throws(() => closed.parse(['1', 2]));
+            assert.doesNotThrow(() => open.parse(['label', 1, 2]));
+            assert.throws(() => open.parse(['label', 'x']));
+        });
+
+        it('should convert numeric exclusive bounds', () => {
+            const zodSchema = openAPISchemaToZod(schema31({ type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 1 }));
+
+            assert.doesNotThrow(() => zodSchema.parse(0.5));
+            assert.throws(() => zodSchema.parse(0));
+            assert.throws(() => zodSchema.parse(1));
+        });
+
+        it('should accept examples arrays', () => {
+            const zodSchema = openAPISchemaToZod(schema31({
+                type: 'string',
+                description: 'A color',
+                examples: ['red', 'blue']
+            }));
+
+            assert.equal(zodSchema.description, 'A color');
+            assert.doesNotThrow(() => zodSchema.parse('green'));
+        });
+    });
+});
@@ -3,6 +3,7 @@ import { strict as assert } from 'node:assert';
 import * as sinon from 'sinon';
 import * as fs from 'fs';
 import * as path from 'path';
+import axios from 'axios';
 import { loadOpenApiSpec } from '../../../src/utils/load-openapi-definition';
 import logger from '../../../src/utils/logger';
 
@@ -23,16 +24,32 @@ describe('Load OpenAPI Definition', () => {
     });
     
     describe('loadOpenApiSpec', () => {
-        it('should return URL directly for remote HTTP/HTTPS URLs', async () => {
+        it('should fetch and parse remote HTTP/HTTPS URLs', async () => {
+            const jsonSpec = { openapi: '3.0.0', info: { title: 'Remote API', version: '1.0.0' }, paths: {} };
+            const getStub = sandbox.stub(axios, 'get');
+            getStub.onFirstCall().resolves({ data: JSON.stringify(jsonSpec) });
+            getStub.onSecondCall().resolves({ data: 'openapi: 3.0.0\ninfo:\n  title: Remote YAML API\n  version: 1.0.0\npaths: {}\n' });
+            
             // HTTP URL
             const httpUrl = 'http://example.com/api-spec.json';
             const result1 = await loadOpenApiSpec(httpUrl);
-            assert.equal(result1, httpUrl);
+            assert.deepEqual(result1, jsonSpec);
+            assert.equal(getStub.firstCall.args[0], httpUrl);
             
             // HTTPS URL
-            const httpsUrl = 'https://example.com/api-spec.json';
+            const httpsUrl = 'https://example.com/api-spec.yaml';
             const result2 = await loadOpenApiSpec(httpsUrl);
-            assert.equal(result2, httpsUrl);
+            assert.equal(result2.info.title, 'Remote YAML API');
+            assert.equal(getStub.secondCall.args[0], httpsUrl);
+        });
+        
+        it('should reject when fetching a remote spec fails', async () => {
+            sandbox.stub(axios, 'get').rejects(new Error('Network error'));
+            
+            await assert.rejects(
+                () => loadOpenApiSpec('https://example.com/missing.json'),
+                /Network error/
+            );
         });
         
         it('should throw error when file reading fails', async () => {
@@ -174,5 +191,35 @@ paths: {}
                 }
             }
         });
+
+        it('should normalize OpenAPI 3.1 documents', async () => {
+            const tempFilePath = path.join(__dirname, 'temp-test-openapi-31.yml');
+            
+            try {
+                const yamlContent = `
+openapi: 3.1.0
+info:
+  title: Test 3.1 API
+  version: 1.0.0
+webhooks:
+  petCreated:
+    post:
+      responses:
+        '200':
+          description: ok
+`;
+                
+                fs.writeFileSync(tempFilePath, yamlContent);
+                
+                const result = await loadOpenApiSpec(tempFilePath);
+                
+                assert.equal(result.openapi, '3.1.0');
+                assert.deepEqual(result.paths, {});
+            } finally {
+                if (fs.existsSync(tempFilePath)) {
+                    fs.unlinkSync(tempFilePath);
+                }
+            }
+        });
     });
-});
\ No newline at end of file
+});
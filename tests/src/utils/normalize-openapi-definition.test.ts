@@ -0,0 +1,98 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import * as sinon from 'sinon';
+import { normalizeOpenApiDefinition, OpenApiDefinition } from '../../../src/utils/normalize-openapi-definition';
+import logger from '../../../src/utils/logger';
+
+describe('Normalize OpenAPI Definition', () => {
+    let sandbox: sinon.SinonSandbox;
+    
+    beforeEach(() => {
+        sandbox = sinon.createSandbox();
+        // Silence logger during tests
+        sandbox.stub(logger, 'debug');
+        sandbox.stub(logger, 'info');
+        sandbox.stub(logger, 'warn');
+        sandbox.stub(logger, 'error');
+    });
+    
+    afterEach(() => {
+        sandbox.restore();
+    });
+    
+    describe('normalizeOpenApiDefinition', () => {
+        it('should leave OpenAPI 3.0 definitions untouched', () => {
+            const definition = {
+                openapi: '3.0.3',
+                info: { title: 'Test', version: '1.0.0' },
+                paths: {}
+            } as OpenApiDefinition;
+            
+            assert.equal(normalizeOpenApiDefinition(definition), definition);
+        });
+        
+        it('should rewrite $defs references to absolute pointers', () => {
+            const definition = {
+                openapi: '3.1.0',
+                info: { title: 'Test', version: '1.0.0' },
+                paths: {},
+                components: {
+                    schemas: {
+                        Order: {
+                            type: 'object',
+                            properties: {
+                                lines: { type: 'array', items: { $ref: '#/$defs/Line' } }
+                            },
+                            $defs: {
+                                Line: {
+                                    type: 'object',
+                                    properties: { sku: { $ref: '#/$defs/Sku' } },
+                                    $defs: { Sku: { type: 'string' } }
+                                }
+                            }
+                        }
+                    }
+                }
+            } as unknown as OpenApiDefinition;
+            
+            const result = normalizeOpenApiDefinition(definition) as any;
+            const order = result.components.schemas.Order;
+            
+            assert.equal(order.properties.lines.items.$ref, '#/components/schemas/Order/$defs/Line');
+            // The nearest $defs declaring the name wins
+            assert.equal(order.$defs.Line.properties.sku.$ref, '#/components/schemas/Order/$defs/Line/$defs/Sku');
+        });
+        
+        it('should keep references to $defs at the document root', () => {
+            const definition = {
+                openapi: '3.1.0',
+                info: { title: 'Test', version: '1.0.0' },
+                paths: {
+                    '/pets': {
+                        get: { responses: { '200': { description: 'ok', content: { 'application/json': { schema: { $ref: '#/$defs/Pet' } } } } } }
+                    }
+                },
+                $defs: { Pet: { type: 'object' } }
+            } as unknown as OpenApiDefinition;
+            
+            const result = normalizeOpenApiDefinition(definition) as any;
+            
+            assert.equal(result.paths['/pets'].get.responses['200'].content['application/json'].schema.$ref, '#/$defs/Pet');
+        });
+        
+        it('should default missing paths for webhook-only definitions', () => {
+            const definition = {
+                openapi: '3.1.0',
+                info: { title: 'Test', version: '1.0.0' },
+                webhooks: {
+                    newPet: { post: { responses: { '200': { description: 'ok' } } } }
+                }
+            } as unknown as OpenApiDefinition;
+            
+            const result = normalizeOpenApiDefinition(definition) as any;
+            
+            assert.deepEqual(result.paths, {});
+            assert.ok(result.webhooks.newPet);
+        });
+    });
+});
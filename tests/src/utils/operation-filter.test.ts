@@ -0,0 +1,104 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import * as sinon from 'sinon';
+import {
+    filterOperations,
+    getOperationFilterReason,
+    globToRegExp
+} from '../../../src/utils/operation-filter';
+import logger from '../../../src/utils/logger';
+
+describe('Operation Filter', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    const listPets = { operationId: 'listPets', path: '/pets', method: 'get', tags: ['pets'] };
+    const deletePet = { operationId: 'deletePet', path: '/pets/{id}', method: 'delete', tags: ['pets'] };
+    const getUser = { operationId: 'getUser', path: '/admin/users/{id}', method: 'get', tags: ['admin'] };
+    const health = { operationId: 'health', path: '/health', method: 'get' };
+
+    beforeEach(() => {
+        sandbox = sinon.createSandbox();
+        // Silence logger during tests
+        sandbox.stub(logger, 'debug');
+        sandbox.stub(logger, 'info');
+        sandbox.stub(logger, 'warn');
+        sandbox.stub(logger, 'error');
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe('globToRegExp', () => {
+        it('should match within and across path segments', () => {
+            assert.equal(globToRegExp('/pets/*').test('/pets/{id}'), true);
+            assert.equal(globToRegExp('/pets/*').test('/pets/{id}/photos'), false);
+            assert.equal(globToRegExp('/pets/**').test('/pets/{id}/photos'), true);
+            assert.equal(globToRegExp('/v?/pets').test('/v2/pets'), true);
+            assert.equal(globToRegExp('/pets').test('/pets/{id}'), false);
+        });
+    });
+
+    describe('getOperationFilterReason', () => {
+        it('should keep everything without filters', () => {
+            for (const operation of [listPets, deletePet, getUser, health]) {
+                assert.equal(getOperationFilterReason(operation), undefined);
+            }
+        });
+
+        it('should require every kind of include list to match', () => {
+            const filters = { includeTags: ['pets', 'admin'], includeMethods: ['GET'] };
+
+            assert.equal(getOperationFilterReason(listPets, filters), undefined);
+            assert.equal(getOperationFilterReason(getUser, filters), undefined);
+            assert.equal(getOperationFilterReason(deletePet, filters), 'method not included');
+            assert.equal(getOperationFilterReason(health, filters), 'tag not included');
+        });
+
+        it('should apply exclude lists after include lists', () => {
+            const filters = { includePaths: ['/pets/**', '/admin/**'], excludePaths: ['/admin/**'], excludeMethods: ['delete'] };
+
+            assert.equal(getOperationFilterReason(listPets, { excludeTags: ['pets'] }), 'excluded tag');
+            assert.equal(getOperationFilterReason(getUser, filters), 'excluded path');
+            assert.equal(getOperationFilterReason(deletePet, filters), 'excluded method');
+            assert.equal(getOperationFilterReason(health, filters), 'path not included');
+        });
+
+        it('should always honour explicit operationId lists', () => {
+            const filters = { includeTags: ['admin'], includeOperationIds: ['health', 'deletePet'], excludeOperationIds: ['deletePet'] };
+
+            assert.equal(getOperationFilterReason(health, filters), undefined);
+            assert.equal(getOperationFilterReason(getUser, filters), undefined);
+            assert.equal(getOperationFilterReason(deletePet, filters), 'excluded operationId');
+            assert.equal(getOperationFilterReason(listPets, filters), 'tag not included');
+        });
+
+        it('should only keep safe operations in read-only mode', () => {
+            const search = { operationId: 'searchPets', path: '/pets/search', method: 'post', extensions: { 'x-mcp-safe': true } };
+            const filters = { readOnly: true, includeOperationIds: ['deletePet'] };
+
+            assert.equal(getOperationFilterReason(listPets, filters), 'operationId not included');
+            assert.equal(getOperationFilterReason(deletePet, filters), 'unsafe method in read-only mode');
+            assert.equal(getOperationFilterReason(search, { readOnly: true }), undefined);
+        });
+
+        it('should only keep allowed operationIds when they are the only include list', () => {
+            const filters = { includeOperationIds: ['health'] };
+
+            assert.equal(getOperationFilterReason(health, filters), undefined);
+            assert.equal(getOperationFilterReason(listPets, filters), 'operationId not included');
+        });
+    });
+
+    describe('filterOperations', () => {
+        it('should log the filtered operations grouped by reason', () => {
+            const kept = filterOperations([listPets, deletePet, getUser, health], { excludeTags: ['admin'], excludeMethods: ['delete'] });
+
+            assert.deepEqual(kept.map((operation) => operation.operationId), ['listPets', 'health']);
+            const infoStub = logger.info as sinon.SinonStub;
+            assert.ok(infoStub.calledWith('Filtered out 2 of 4 operations', {
+                filteredOut: { 'excluded method': ['deletePet'], 'excluded tag': ['getUser'] }
+            }));
+        });
+    });
+});
@@ -0,0 +1,212 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import * as sinon from 'sinon';
+import {
+    applyNextPage,
+    collectPages,
+    decodeContinuation,
+    encodeContinuation,
+    getNextLink,
+    getNextPage,
+    getPageItems,
+    getPaginationConfig
+} from '../../../src/utils/pagination';
+import logger from '../../../src/utils/logger';
+
+describe('Pagination', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    beforeEach(() => {
+        sandbox = sinon.createSandbox();
+        // Silence logger during tests
+        sandbox.stub(logger, 'debug');
+        sandbox.stub(logger, 'info');
+        sandbox.stub(logger, 'warn');
+        sandbox.stub(logger, 'error');
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe('getPaginationConfig', () => {
+        const listPets = {
+            operationId: 'listPets',
+            method: 'get',
+            parameters: [
+                { name: 'cursor', in: 'query' as const },
+                { name: 'limit', in: 'query' as const }
+            ]
+        };
+
+        it('should only detect the pagination when enabled', () => {
+            assert.equal(getPaginationConfig(listPets), undefined);
+            assert.deepEqual(getPaginationConfig(listPets, { detect: true, maxPages: 3 }), {
+                style: 'cursor',
+                param: 'cursor',
+                sizeParam: 'limit',
+                maxPages: 3,
+                maxItems: 1000
+            });
+            assert.equal(getPaginationConfig({ ...listPets, method: 'post' }, { detect: true }), undefined);
+        });
+
+        it('should follow the x-mcp-pagination extension', () => {
+            assert.equal(getPaginationConfig({ ...listPets, extensions: { 'x-mcp-pagination': false } }, { detect: true }), undefined);
+            assert.equal(getPaginationConfig({ ...listPets, extensions: { 'x-mcp-pagination': true } })?.style, 'cursor');
+            assert.deepEqual(getPaginationConfig({
+                operationId: 'search',
+                method: 'post',
+                extensions: { 'x-mcp-pagination': { style: 'page', itemsPath: 'hits.hits', maxItems: 50 } }
+            }), { style: 'page', param: 'page', itemsPath: 'hits.hits', maxPages: 5, maxItems: 50 });
+        });
+
+        it('should detect Link headers declared by the responses', () => {
+            const config = getPaginationConfig({
+                operationId: 'listRepos',
+                method: 'get',
+                responses: { '200': { description: 'ok', headers: { Link: { schema: { type: 'string' } } } } }
+            }, { detect: true });
+            assert.equal(config?.style, 'link');
+        });
+    });
+
+    describe('getPageItems', () => {
+        it('should find the items of a page', () => {
+            assert.deepEqual(getPageItems([1, 2]), { items: [1, 2] });
+            assert.deepEqual(getPageItems({ results: [1], count: 1 }), { items: [1], path: 'results' });
+            assert.deepEqual(getPageItems({ pets: [1], tags: 'a' }), { items: [1], path: 'pets' });
+            assert.equal(getPageItems({ pets: [1], owners: [2] }), undefined);
+            assert.equal(getPageItems('text'), undefined);
+        });
+    });
+
+    describe('getNextLink', () => {
+        it('should return the next link of a Link header', () => {
+            const header = '<https://api.example.com/repos?page=1>; rel="prev", <https://api.example.com/repos?page=3>; rel="next last"';
+            assert.equal(getNextLink(header), 'https://api.example.com/repos?page=3');
+            assert.equal(getNextLink('<https://api.example.com/repos?page=1>; rel="prev"'), undefined);
+            assert.equal(getNextLink(undefined), undefined);
+        });
+    });
+
+    describe('getNextPage', () => {
+        it('should resolve relative next links against the page URL', () => {
+            const next = getNextPage(
+                { headers: { link: '</repos?page=2>; rel="next"' }, data: [1], url: 'https://api.example.com/repos?page=1' },
+                1, undefined, { style: 'link' }
+            );
+            assert.deepEqual(next, { url: 'https://api.example.com/repos?page=2' });
+        });
+
+        it('should read the next cursor from the body', () => {
+            const config = { style: 'cursor' as const, param: 'cursor' };
+            assert.deepEqual(getNextPage({ headers: {}, data: { data: [1], meta: { next_cursor: 'abc' } } }, 1, undefined, config), { value: 'abc' });
+            assert.equal(getNextPage({ headers: {}, data: { data: [1], next_cursor: null } }, 1, 'abc', config), undefined);
+            assert.equal(getNextPage({ headers: {}, data: { data: [1], next_cursor: 'abc' } }, 1, 'abc', config), undefined);
+        });
+
+        it('should stop page and offset pagination on short or last pages', () => {
+            const page = { style: 'page' as const, param: 'page' };
+            assert.deepEqual(getNextPage({ headers: {}, data: [1, 2] }, 2, undefined, page, 2), { value: 2 });
+            assert.equal(getNextPage({ headers: {}, data: [1] }, 1, 2, page, 2), undefined);
+            assert.equal(getNextPage({ headers: {}, data: { items: [1, 2], total_pages: 3 } }, 2, 3, page), undefined);
+
+            const offset = { style: 'offset' as const, param: 'offset' };
+            assert.deepEqual(getNextPage({ headers: {}, data: { items: [1, 2], total: 5 } }, 2, 2, offset), { value: 4 });
+            assert.equal(getNextPage({ headers: {}, data: { items: [1, 2], total: 4 } }, 2, 2, offset), undefined);
+        });
+    });
+
+    describe('applyNextPage', () => {
+        const params = [{ name: 'owner', in: 'path', value: 'me' }, { name: 'cursor', in: 'query', value: 'a' }];
+
+        it('should replace the pagination query parameter', () => {
+            const next = applyNextPage({ value: 'b' }, params, {}, { style: 'cursor', param: 'cursor' });
+            assert.deepEqual(next.params, [{ name: 'owner', in: 'path', value: 'me' }, { name: 'cursor', in: 'query', value: 'b' }]);
+        });
+
+        it('should request next URLs without the original query parameters', () => {
+            const next = applyNextPage({ url: 'https://api.example.com/repos?page=2' }, params, { timeout: 10 }, { style: 'link' });
+            assert.deepEqual(next.params, [{ name: 'owner', in: 'path', value: 'me' }]);
+            assert.deepEqual(next.config, { timeout: 10, url: 'https://api.example.com/repos?page=2', params: { cursor: undefined } });
+        });
+    });
+
+    describe('continuation tokens', () => {
+        it('should round-trip the next page of the same operation only', () => {
+            const token = encodeContinuation('listPets', { value: 'abc' });
+            assert.deepEqual(decodeContinuation('listPets', token), { value: 'abc' });
+            assert.throws(() => decodeContinuation('listOrders', token), /Invalid continuation token for operation listOrders/);
+            assert.throws(() => decodeContinuation('listPets', 'not a token'), /Invalid continuation token/);
+
+            // tokens are signed, changing the payload invalidates them
+            const [, signature] = token.split('.');
+            const forged = Buffer.from(JSON.stringify({ operationId: 'listPets', next: { value: 'xyz' } })).toString('base64url');
+            assert.throws(() => decodeContinuation('listPets', `${forged}.${signature}`), /Invalid continuation token/);
+            assert.throws(() => decodeContinuation('listPets', forged), /Invalid continuation token/);
+        });
+    });
+
+    describe('collectPages', () => {
+        const config = { style: 'cursor' as const, param: 'cursor', maxPages: 3, maxItems: 100 };
+
+        it('should combine the items of all pages', async () => {
+            const fetchPage = sinon.stub()
+                .onFirstCall().resolves({ headers: {}, data: { data: [3, 4], next_cursor: 'c' } })
+                .onSecondCall().resolves({ headers: {}, data: { data: [5], next_cursor: null } });
+
+            const collected = await collectPages('listPets', { headers: {}, data: { data: [1, 2], next_cursor: 'b', object: 'list' } }, [], config, fetchPage);
+
+            assert.deepEqual(collected?.data, { data: [1, 2, 3, 4, 5], next_cursor: 'b', object: 'list' });
+            assert.deepEqual(collected?.summary, { pages: 3, items: 5, complete: true });
+            assert.deepEqual(fetchPage.firstCall.args[0], { value: 'b' });
+            assert.deepEqual(fetchPage.secondCall.args[0], { value: 'c' });
+        });
+
+        it('should return a continuation token when the limits are reached', async () => {
+            const fetchPage = sinon.stub().callsFake(async (next) => ({
+                headers: {},
+                data: { data: [next.value], next_cursor: `${next.value}+` }
+            }));
+
+            const collected = await collectPages('listPets', { headers: {}, data: { data: ['a'], next_cursor: 'b' } }, [], config, fetchPage);
+
+            assert.deepEqual(collected?.data, { data: ['a', 'b', 'b+'], next_cursor: 'b' });
+            assert.equal(collected?.summary.complete, false);
+            assert.deepEqual(decodeContinuation('listPets', collected?.summary.continuation as string), { value: 'b++' });
+            assert.equal(fetchPage.callCount, 2);
+        });
+
+        it('should keep the items collected so far when a page fails', async () => {
+            const fetchPage = sinon.stub().rejects(new Error('Request failed with status code 503'));
+
+            const failed = await collectPages('listPets', { headers: {}, data: { items: [1], next: 'b' } }, [], config, fetchPage);
+            assert.deepEqual(failed?.data, { items: [1], next: 'b' });
+            assert.equal(failed?.summary.error, 'Fetching page 2 failed: Request failed with status code 503');
+            assert.deepEqual(decodeContinuation('listPets', failed?.summary.continuation as string), { value: 'b' });
+        });
+
+        it('should not follow next links to another origin', async () => {
+            const fetchPage = sinon.stub();
+            const first = {
+                headers: { link: '<https://evil.example.com/repos?page=2>; rel="next"' },
+                data: [1],
+                url: 'https://api.example.com/repos'
+            };
+
+            const collected = await collectPages('listRepos', first, [], { style: 'link' }, fetchPage);
+
+            assert.equal(fetchPage.callCount, 0);
+            assert.equal(collected?.summary.complete, false);
+            assert.equal(collected?.summary.continuation, undefined);
+            assert.match(collected?.summary.error as string, /is on another origin/);
+        });
+
+        it('should not paginate responses without items', async () => {
+            const fetchPage = sinon.stub();
+            assert.equal(await collectPages('getPet', { headers: {}, data: { id: 1 } }, [], config, fetchPage), undefined);
+            assert.equal(fetchPage.callCount, 0);
+        });
+    });
+});
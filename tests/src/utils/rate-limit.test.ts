@@ -0,0 +1,122 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import * as sinon from 'sinon';
+import { createRateLimiter } from '../../../src/utils/rate-limit';
+import logger from '../../../src/utils/logger';
+
+describe('Rate Limit', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    const deferred = () => {
+        let resolve: () => void = () => undefined;
+        const promise = new Promise<void>((done) => { resolve = done; });
+        return { promise, resolve };
+    };
+
+    beforeEach(() => {
+        sandbox = sinon.createSandbox();
+        // Silence logger during tests
+        sandbox.stub(logger, 'debug');
+        sandbox.stub(logger, 'info');
+        sandbox.stub(logger, 'warn');
+        sandbox.stub(logger, 'error');
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe('createRateLimiter', () => {
+        it('should run calls right away without limits', async () => {
+            const limiter = createRateLimiter();
+
+            assert.equal(limiter.usesHosts, false);
+            assert.equal(await limiter.schedule({ operationId: 'getPet' }, async () => 'done'), 'done');
+        });
+
+        it('should queue calls over the concurrency limit and log the wait', async () => {
+            const limiter = createRateLimiter({ global: { concurrency: 1 } });
+            const first = deferred();
+            const order: string[] = [];
+
+            const running = limiter.schedule({ operationId: 'first' }, async () => {
+                await first.promise;
+                order.push('first');
+            });
+            const queued = limiter.schedule({ operationId: 'second' }, async () => {
+                order.push('second');
+            });
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            assert.deepEqual(order, []);
+
+            first.resolve();
+            await Promise.all([running, queued]);
+            assert.deepEqual(order, ['first', 'second']);
+            const infoStub = logger.info as sinon.SinonStub;
+            assert.ok(infoStub.calledWith('Queued operation second behind the global limit', { queueDepth: 1, active: 1 }));
+            assert.ok(infoStub.calledWithMatch('Operation second waited'));
+        });
+
+        it('should space calls out once the burst is used up', async () => {
+            const limiter = createRateLimiter({ operations: { getPet: { rate: 20, burst: 1 } } });
+            const startedAt = Date.now();
+            const times: number[] = [];
+
+            await Promise.all([1, 2, 3].map(() => limiter.schedule({ operationId: 'getPet' }, async () => {
+                times.push(Date.now() - startedAt);
+            })));
+
+            assert.equal(times.length, 3);
+            assert.ok(times[0] < 40, `first call should not wait, waited ${times[0]}ms`);
+            assert.ok(times[2] >= 80, `third call should wait for two tokens, waited ${times[2]}ms`);
+        });
+
+        it('should limit every host separately', async () => {
+            const limiter = createRateLimiter({ perHost: { concurrency: 1 } });
+            const blocked = deferred();
+            let running = 0;
+
+            const first = limiter.schedule({ operationId: 'getPet', host: 'a.example.com' }, () => blocked.promise);
+            await limiter.schedule({ operationId: 'getPet', host: 'b.example.com' }, async () => {
+                running++;
+            });
+
+            assert.equal(limiter.usesHosts, true);
+            assert.equal(running, 1);
+            blocked.resolve();
+            await first;
+        });
+
+        it('should give up on calls waiting longer than the maximum wait', async () => {
+            const limiter = createRateLimiter({ global: { concurrency: 1 }, maxWait: 20 });
+            const blocked = deferred();
+            const task = sinon.stub().resolves();
+
+            const running = limiter.schedule({ operationId: 'first' }, () => blocked.promise);
+            await assert.rejects(
+                limiter.schedule({ operationId: 'second' }, task),
+                (error: any) => error.code === 'EQUEUETIMEOUT' && /the global limit/.test(error.message)
+            );
+            assert.equal(task.callCount, 0);
+
+            blocked.resolve();
+            await running;
+            await limiter.schedule({ operationId: 'third' }, task);
+            assert.equal(task.callCount, 1);
+        });
+
+        it('should drop queued calls when they are aborted', async () => {
+            const limiter = createRateLimiter({ global: { concurrency: 1 } });
+            const blocked = deferred();
+            const controller = new AbortController();
+
+            const running = limiter.schedule({ operationId: 'first' }, () => blocked.promise);
+            const queued = limiter.schedule({ operationId: 'second' }, async () => 'sent', controller.signal);
+            controller.abort(new Error('cancelled'));
+
+            await assert.rejects(queued, /cancelled/);
+            blocked.resolve();
+            await running;
+        });
+    });
+});
@@ -0,0 +1,76 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import * as sinon from 'sinon';
+import {
+    getMethodOverrides,
+    getReadOnlyViolation,
+    isSafeOperation
+} from '../../../src/utils/read-only';
+import logger from '../../../src/utils/logger';
+
+describe('Read Only', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    beforeEach(() => {
+        sandbox = sinon.createSandbox();
+        // Silence logger during tests
+        sandbox.stub(logger, 'debug');
+        sandbox.stub(logger, 'info');
+        sandbox.stub(logger, 'warn');
+        sandbox.stub(logger, 'error');
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe('isSafeOperation', () => {
+        it('should accept safe methods and operations opted in as safe', () => {
+            assert.equal(isSafeOperation('GET'), true);
+            assert.equal(isSafeOperation('head'), true);
+            assert.equal(isSafeOperation('options'), true);
+            assert.equal(isSafeOperation('post'), false);
+            assert.equal(isSafeOperation('post', { 'x-mcp-safe': true }), true);
+            assert.equal(isSafeOperation('post', { 'x-mcp-safe': 'yes' }), false);
+        });
+    });
+
+    describe('getMethodOverrides', () => {
+        it('should find override headers and query parameters', () => {
+            assert.deepEqual(getMethodOverrides([{ name: 'X-HTTP-Method-Override', in: 'header', value: 'DELETE' }]), ['DELETE']);
+            assert.deepEqual(getMethodOverrides([{ name: '_method', in: 'query', value: 'put' }]), ['put']);
+            assert.deepEqual(getMethodOverrides([], { 'x-method-override': 'PATCH' }), ['PATCH']);
+            assert.deepEqual(getMethodOverrides([{ name: 'X-Request-Id', in: 'header', value: '1' }]), []);
+        });
+
+        it('should find every override', () => {
+            assert.deepEqual(
+                getMethodOverrides(
+                    [{ name: '_method', in: 'query', value: ['GET', 'PUT'] }, { name: 'X-HTTP-Method', in: 'header', value: 'POST' }],
+                    { 'X-HTTP-Method-Override': 'DELETE' }
+                ),
+                ['GET', 'PUT', 'POST', 'DELETE']
+            );
+        });
+    });
+
+    describe('getReadOnlyViolation', () => {
+        it('should refuse unsafe methods', () => {
+            assert.equal(getReadOnlyViolation('delete'), 'DELETE requests are not allowed in read-only mode');
+            assert.equal(getReadOnlyViolation('get'), undefined);
+            assert.equal(getReadOnlyViolation('post', { 'x-mcp-safe': true }), undefined);
+        });
+
+        it('should refuse overrides to unsafe methods', () => {
+            assert.equal(
+                getReadOnlyViolation('post', { 'x-mcp-safe': true }, [{ name: 'X-HTTP-Method', in: 'header', value: 'delete' }]),
+                'Overriding the method to DELETE is not allowed in read-only mode'
+            );
+            assert.equal(getReadOnlyViolation('get', {}, [{ name: '_method', in: 'query', value: 'HEAD' }]), undefined);
+            assert.equal(
+                getReadOnlyViolation('get', {}, [{ name: '_method', in: 'query', value: 'GET' }], { 'X-HTTP-Method-Override': 'DELETE' }),
+                'Overriding the method to DELETE is not allowed in read-only mode'
+            );
+        });
+    });
+});
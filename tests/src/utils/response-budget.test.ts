@@ -0,0 +1,107 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import * as sinon from 'sinon';
+import { applyResponseBudget, projectFields } from '../../../src/utils/response-budget';
+import logger from '../../../src/utils/logger';
+
+describe('Response Budget', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    beforeEach(() => {
+        sandbox = sinon.createSandbox();
+        // Silence logger during tests
+        sandbox.stub(logger, 'debug');
+        sandbox.stub(logger, 'info');
+        sandbox.stub(logger, 'warn');
+        sandbox.stub(logger, 'error');
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe('projectFields', () => {
+        const data = {
+            total: 2,
+            items: [
+                { id: 1, name: 'Rex', owner: { id: 7, name: 'Ann' } },
+                { id: 2, name: 'Tom', owner: { id: 8, name: 'Bob' } }
+            ]
+        };
+
+        it('should keep the requested fields of every array item', () => {
+            assert.deepEqual(projectFields(data, ['total', 'items.id', 'items.owner.name']), {
+                total: 2,
+                items: [{ id: 1, owner: { name: 'Ann' } }, { id: 2, owner: { name: 'Bob' } }]
+            });
+        });
+
+        it('should accept JSONPath-like fields', () => {
+            assert.deepEqual(projectFields(data.items, ['$[*].name']), [{ name: 'Rex' }, { name: 'Tom' }]);
+            assert.deepEqual(projectFields(data, ['$.items[*].owner', 'items.owner.id']), {
+                items: [{ owner: { id: 7, name: 'Ann' } }, { owner: { id: 8, name: 'Bob' } }]
+            });
+        });
+
+        it('should leave out fields that do not exist', () => {
+            assert.deepEqual(projectFields(data, ['missing', 'total.value']), { total: undefined });
+        });
+    });
+
+    describe('applyResponseBudget', () => {
+        it('should leave responses within the budget unchanged', () => {
+            const data = { items: [1, 2, 3] };
+            assert.deepEqual(applyResponseBudget(data), { data });
+            assert.deepEqual(applyResponseBudget(Buffer.from('abc'), ['a'], { maxSize: 1 }).summary, undefined);
+        });
+
+        it('should cut long strings first', () => {
+            const { data, summary } = applyResponseBudget({ id: 1, text: 'a'.repeat(5000) }, [], { maxSize: 1000, maxStringLength: 100 });
+
+            assert.deepEqual(data, { id: 1, text: `${'a'.repeat(100)}…` });
+            assert.deepEqual(summary?.dropped, [{ path: '$.text', characters: 4900 }]);
+            assert.ok((summary?.size ?? Infinity) <= 1000);
+            assert.ok((summary?.originalSize ?? 0) > 5000);
+        });
+
+        it('should keep as many array items as fit and report the dropped items', () => {
+            const items = Array.from({ length: 500 }, (_, id) => ({ id, tags: ['a', 'b'] }));
+            const { data, summary } = applyResponseBudget({ items }, [], { maxSize: 2000 });
+
+            const kept = (data as { items: unknown[] }).items;
+            assert.ok(kept.length > 5 && kept.length < 500);
+            assert.deepEqual(kept[0], { id: 0, tags: ['a', 'b'] });
+            assert.deepEqual(summary?.dropped, [{ path: '$.items', items: 500 - kept.length }]);
+            assert.ok((summary?.size ?? Infinity) <= 2000);
+        });
+
+        it('should project before truncating', () => {
+            const items = Array.from({ length: 100 }, (_, id) => ({ id, description: 'x'.repeat(200) }));
+
+            const projected = applyResponseBudget(items, ['id'], { maxSize: 5000 });
+            assert.equal((projected.data as unknown[]).length, 100);
+            assert.deepEqual(projected.summary?.fields, ['id']);
+            assert.deepEqual(projected.summary?.dropped, []);
+        });
+
+        it('should fall back to the truncated JSON text', () => {
+            const wide = Object.fromEntries(Array.from({ length: 200 }, (_, index) => [`field${index}`, index]));
+            const { data, summary } = applyResponseBudget(wide, [], { maxSize: 500 });
+
+            assert.equal(typeof data, 'string');
+            assert.ok((data as string).startsWith('{\n  "field0": 0'));
+            assert.equal(summary?.dropped[0].path, '$');
+        });
+
+        it('should cut text responses to the budget', () => {
+            const { data, summary } = applyResponseBudget('<html>'.repeat(1000), [], { maxSize: 600 });
+            assert.equal(data, `${'<html>'.repeat(100)}…`);
+            assert.deepEqual(summary?.dropped, [{ path: '$', characters: 5400 }]);
+        });
+
+        it('should not truncate when the budget is disabled', () => {
+            const data = 'a'.repeat(100_000);
+            assert.deepEqual(applyResponseBudget(data, [], { maxSize: 0 }), { data });
+        });
+    });
+});
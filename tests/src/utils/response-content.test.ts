@@ -0,0 +1,74 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import * as sinon from 'sinon';
+import {
+    decodeResponseData,
+    getContentDispositionFilename,
+    isTextContentType
+} from '../../../src/utils/response-content';
+import logger from '../../../src/utils/logger';
+
+describe('Response Content', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    beforeEach(() => {
+        sandbox = sinon.createSandbox();
+        // Silence logger during tests
+        sandbox.stub(logger, 'debug');
+        sandbox.stub(logger, 'info');
+        sandbox.stub(logger, 'warn');
+        sandbox.stub(logger, 'error');
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe('isTextContentType', () => {
+        it('should treat JSON, XML and text types as text', () => {
+            for (const contentType of ['application/json', 'application/problem+json', 'text/csv', 'application/xml', 'application/atom+xml', 'application/x-yaml']) {
+                assert.equal(isTextContentType(contentType), true, contentType);
+            }
+            for (const contentType of ['image/png', 'application/pdf', 'application/octet-stream', 'application/zip']) {
+                assert.equal(isTextContentType(contentType), false, contentType);
+            }
+        });
+    });
+
+    describe('decodeResponseData', () => {
+        it('should parse JSON bodies', () => {
+            assert.deepEqual(decodeResponseData(Buffer.from('{"a":1}'), 'application/json'), { a: 1 });
+            assert.deepEqual(decodeResponseData(new TextEncoder().encode('[1]').buffer, 'application/vnd.api+json'), [1]);
+        });
+
+        it('should keep text and invalid JSON as strings', () => {
+            assert.equal(decodeResponseData(Buffer.from('a,b\n1,2'), 'text/csv'), 'a,b\n1,2');
+            assert.equal(decodeResponseData(Buffer.from('not json'), 'application/json'), 'not json');
+        });
+
+        it('should keep binary bodies as buffers', () => {
+            const data = decodeResponseData(Buffer.from([0x89, 0x50, 0x4e, 0x47]), 'image/png');
+            assert.ok(Buffer.isBuffer(data));
+            assert.equal(data.length, 4);
+        });
+
+        it('should treat bodies without a content type as JSON or text', () => {
+            assert.deepEqual(decodeResponseData(Buffer.from('{"a":1}')), { a: 1 });
+            assert.equal(decodeResponseData(Buffer.from('plain')), 'plain');
+        });
+
+        it('should pass through already decoded and empty bodies', () => {
+            assert.deepEqual(decodeResponseData({ a: 1 }, 'application/json'), { a: 1 });
+            assert.equal(decodeResponseData(Buffer.alloc(0), 'application/json'), undefined);
+        });
+    });
+
+    describe('getContentDispositionFilename', () => {
+        it('should read plain and encoded file names', () => {
+            assert.equal(getContentDispositionFilename('attachment; filename="report.pdf"'), 'report.pdf');
+            assert.equal(getContentDispositionFilename("attachment; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf"), 'résumé.pdf');
+            assert.equal(getContentDispositionFilename('inline'), undefined);
+            assert.equal(getContentDispositionFilename(undefined), undefined);
+        });
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { filterHeaders, getResultEnvelope } from '../../../src/utils/result-envelope';
+
+describe('Result Envelope', () => {
+    const headers = {
+        'Content-Type': 'application/json',
+        Date: 'Mon, 19 Oct 2026 10:00:00 GMT',
+        Server: 'nginx/1.25.3',
+        ETag: '"abc"',
+        'X-Cache': 'HIT from edge-fra-12',
+        Location: '/pets/7',
+        'X-RateLimit-Remaining': '99',
+        RateLimit: 'limit=100, remaining=99, reset=30',
+    };
+
+    describe('filterHeaders', () => {
+        it('should keep only the allowed headers by default', () => {
+            assert.deepEqual(filterHeaders(headers), {
+                'Content-Type': 'application/json',
+                Location: '/pets/7',
+                'X-RateLimit-Remaining': '99',
+                RateLimit: 'limit=100, remaining=99, reset=30',
+            });
+        });
+
+        it('should match custom allowlists case-insensitively, with prefixes', () => {
+            assert.deepEqual(filterHeaders(headers, ['etag', 'X-*']), {
+                ETag: '"abc"',
+                'X-Cache': 'HIT from edge-fra-12',
+                'X-RateLimit-Remaining': '99',
+            });
+            assert.deepEqual(filterHeaders(headers, ['*']), headers);
+            assert.deepEqual(filterHeaders(undefined), {});
+        });
+    });
+
+    describe('getResultEnvelope', () => {
+        const result = { statusCode: 201, headers, data: { id: 7 } };
+
+        it('should wrap the body with the status and the allowed headers', () => {
+            assert.deepEqual(getResultEnvelope(result, { pagination: undefined }), {
+                statusCode: 201,
+                headers: filterHeaders(headers),
+                data: { id: 7 },
+                pagination: undefined,
+            });
+        });
+
+        it('should leave out the headers or the whole envelope', () => {
+            assert.deepEqual(getResultEnvelope(result, {}, { mode: 'status' }), { statusCode: 201, data: { id: 7 } });
+            assert.deepEqual(getResultEnvelope(result, { truncation: {} }, { mode: 'body' }), { id: 7 });
+        });
+    });
+});
@@ -0,0 +1,109 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import * as sinon from 'sinon';
+import {
+    getBackoffDelay,
+    getRetryDelay,
+    getServerRetryDelay,
+    withRetries
+} from '../../../src/utils/retry';
+import logger from '../../../src/utils/logger';
+
+describe('Retry', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    const httpError = (status: number, headers: Record<string, string> = {}) =>
+        Object.assign(new Error(`HTTP ${status}`), { response: { status, headers } });
+
+    beforeEach(() => {
+        sandbox = sinon.createSandbox();
+        // Silence logger during tests
+        sandbox.stub(logger, 'debug');
+        sandbox.stub(logger, 'info');
+        sandbox.stub(logger, 'warn');
+        sandbox.stub(logger, 'error');
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe('getServerRetryDelay', () => {
+        it('should read Retry-After as seconds or as a date', () => {
+            const now = Date.parse('2024-01-01T00:00:00Z');
+
+            assert.equal(getServerRetryDelay(503, { 'retry-after': '2' }, now), 2000);
+            assert.equal(getServerRetryDelay(503, { 'Retry-After': 'Mon, 01 Jan 2024 00:00:05 GMT' }, now), 5000);
+            assert.equal(getServerRetryDelay(503, {}, now), undefined);
+        });
+
+        it('should only use the RateLimit reset once the limit is used up', () => {
+            const now = Date.parse('2024-01-01T00:00:00Z');
+
+            assert.equal(getServerRetryDelay(429, { 'ratelimit-reset': '3' }, now), 3000);
+            assert.equal(getServerRetryDelay(503, { 'ratelimit-remaining': '5', 'ratelimit-reset': '3' }, now), undefined);
+            assert.equal(getServerRetryDelay(503, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(now / 1000 + 4) }, now), 4000);
+            assert.equal(getServerRetryDelay(429, { ratelimit: 'limit=10, remaining=0, reset=6' }, now), 6000);
+            assert.equal(getServerRetryDelay(429, { ratelimit: '"default";r=0;t=7' }, now), 7000);
+        });
+    });
+
+    describe('getBackoffDelay', () => {
+        it('should double the delay with full jitter up to the maximum', () => {
+            assert.equal(getBackoffDelay(1, {}, () => 1), 500);
+            assert.equal(getBackoffDelay(3, {}, () => 1), 2000);
+            assert.equal(getBackoffDelay(3, {}, () => 0.5), 1000);
+            assert.equal(getBackoffDelay(10, { baseDelay: 1000, maxDelay: 5000 }, () => 1), 5000);
+        });
+    });
+
+    describe('getRetryDelay', () => {
+        it('should retry retryable failures of idempotent operations only', () => {
+            assert.equal(getRetryDelay(httpError(503, { 'retry-after': '1' }), 1, true)?.delay, 1000);
+            assert.equal(getRetryDelay(httpError(503), 1, false), undefined);
+            assert.ok(getRetryDelay(httpError(503), 1, false, { retryNonIdempotent: true }));
+            assert.equal(getRetryDelay(httpError(500), 1, true), undefined);
+            assert.ok(getRetryDelay(httpError(500), 1, true, { retryableStatuses: [500] }));
+            assert.equal(getRetryDelay({ code: 'ECONNRESET' }, 1, true)?.reason, 'ECONNRESET');
+            assert.equal(getRetryDelay({ code: 'ECONNREFUSED' }, 1, true), undefined);
+        });
+
+        it('should give up after the last attempt or when asked to wait too long', () => {
+            assert.equal(getRetryDelay(httpError(503), 3, true), undefined);
+            assert.ok(getRetryDelay(httpError(503), 3, true, { maxAttempts: 4 }));
+            assert.equal(getRetryDelay(httpError(429, { 'retry-after': '120' }), 1, true), undefined);
+        });
+    });
+
+    describe('withRetries', () => {
+        it('should send again until the request succeeds', async () => {
+            const send = sinon.stub();
+            send.onFirstCall().rejects(httpError(502));
+            send.onSecondCall().rejects(httpError(429, { 'retry-after': '0' }));
+            send.onThirdCall().resolves('ok');
+            const onRetry = sinon.stub();
+
+            const result = await withRetries(send, { idempotent: true, onRetry }, { baseDelay: 1 });
+
+            assert.equal(result, 'ok');
+            assert.equal(send.callCount, 3);
+            assert.deepEqual(onRetry.args.map(([retry]) => [retry.attempt, retry.reason]), [[1, 'HTTP 502'], [2, 'HTTP 429']]);
+        });
+
+        it('should rethrow the last failure', async () => {
+            const send = sinon.stub().rejects(httpError(503));
+
+            await assert.rejects(withRetries(send, { idempotent: true }, { maxAttempts: 2, baseDelay: 1 }), /HTTP 503/);
+            assert.equal(send.callCount, 2);
+        });
+
+        it('should stop waiting for the next attempt when aborted', async () => {
+            const send = sinon.stub().rejects(httpError(503, { 'retry-after': '10' }));
+            const controller = new AbortController();
+            const onRetry = () => controller.abort(new Error('cancelled'));
+
+            await assert.rejects(withRetries(send, { idempotent: true, signal: controller.signal, onRetry }), /cancelled/);
+            assert.equal(send.callCount, 1);
+        });
+    });
+});
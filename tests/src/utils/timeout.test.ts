@@ -0,0 +1,81 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import * as sinon from 'sinon';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import axios from 'axios';
+import { getOperationTimeout, isCancellation, isTimeoutError, withDeadline } from '../../../src/utils/timeout';
+import logger from '../../../src/utils/logger';
+
+describe('Timeout', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    beforeEach(() => {
+        sandbox = sinon.createSandbox();
+        // Silence logger during tests
+        sandbox.stub(logger, 'debug');
+        sandbox.stub(logger, 'info');
+        sandbox.stub(logger, 'warn');
+        sandbox.stub(logger, 'error');
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    describe('getOperationTimeout', () => {
+        it('should prefer configured overrides, then the spec, then the global timeout', () => {
+            const report = { operationId: 'report', extensions: { 'x-mcp-timeout': 120000 } };
+
+            assert.equal(getOperationTimeout({ operationId: 'getPet' }), 30000);
+            assert.equal(getOperationTimeout({ operationId: 'getPet' }, { timeout: 0 }), 0);
+            assert.equal(getOperationTimeout(report, { timeout: 5000 }), 120000);
+            assert.equal(getOperationTimeout(report, { timeout: 5000, operationTimeouts: { report: 60000 } }), 60000);
+            assert.equal(getOperationTimeout({ operationId: 'getPet', extensions: { 'x-mcp-timeout': 'slow' } }, { timeout: 5000 }), 5000);
+        });
+    });
+
+    describe('isTimeoutError', () => {
+        it('should recognize axios timeouts and cancellations', () => {
+            assert.equal(isTimeoutError({ code: 'ECONNABORTED', message: 'timeout of 100ms exceeded' }), true);
+            assert.equal(isTimeoutError({ code: 'ETIMEDOUT', message: 'timeout exceeded' }), true);
+            assert.equal(isTimeoutError({ code: 'ECONNABORTED', message: 'Request aborted' }), false);
+            assert.equal(isCancellation({ code: 'ERR_CANCELED', message: 'canceled' }), true);
+            assert.equal(isCancellation({ code: 'ECONNRESET' }), false);
+        });
+    });
+
+    describe('withDeadline', () => {
+        it('should fail responses trickling in past the deadline like an axios timeout', async () => {
+            let interval: NodeJS.Timeout | undefined;
+            const server = createServer((req, res) => {
+                res.writeHead(200, { 'content-type': 'text/plain' });
+                interval = setInterval(() => res.write('.'), 20);
+            });
+            await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+            const { port } = server.address() as AddressInfo;
+
+            try {
+                await assert.rejects(
+                    withDeadline(150, undefined, (signal) => axios.get(`http://127.0.0.1:${port}/`, { timeout: 150, signal })),
+                    (error: any) => isTimeoutError(error) && error.message === 'timeout of 150ms exceeded'
+                );
+            } finally {
+                clearInterval(interval);
+                server.closeAllConnections();
+                await new Promise((resolve) => server.close(resolve));
+            }
+        });
+
+        it('should pass on cancellations by the caller and run without a deadline for timeout 0', async () => {
+            const controller = new AbortController();
+            const cancelled = withDeadline(1000, controller.signal, (signal) => new Promise((_, reject) => {
+                signal?.addEventListener('abort', () => reject(Object.assign(new Error('canceled'), { code: 'ERR_CANCELED' })));
+            }));
+            controller.abort();
+
+            await assert.rejects(cancelled, (error: any) => isCancellation(error));
+            assert.equal(await withDeadline(0, undefined, async (signal) => signal), undefined);
+        });
+    });
+});
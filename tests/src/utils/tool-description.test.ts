@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { buildToolDescription, getUnknownDescriptionPlaceholders } from '../../../src/utils/tool-description';
+
+describe('Tool Description', () => {
+    const operation = {
+        operationId: 'createPet',
+        method: 'post',
+        path: '/pets',
+        summary: 'Create a pet',
+        description: 'Adds a pet to the store.',
+        tags: ['pets', 'store'],
+        parameters: [
+            { name: 'dryRun', in: 'query', description: 'Validate without saving' },
+            { name: 'legacy', in: 'header', deprecated: true },
+            { name: 'X-Trace', in: 'header' },
+        ],
+        requestBody: {
+            description: 'The pet to add',
+            content: { 'application/json': { schema: { type: 'object' }, example: { name: 'Rex' } } },
+        },
+        responses: {
+            '201': { description: 'The created pet', content: { 'application/json': { examples: { rex: { value: { id: 7, name: 'Rex' } } } } } },
+            '409': { description: 'The pet exists' },
+        },
+    } as any;
+
+    describe('buildToolDescription', () => {
+        it('should compose the documentation of the operation', () => {
+            assert.equal(buildToolDescription(operation), [
+                'Create a pet',
+                '',
+                'Adds a pet to the store.',
+                '',
+                'Tags: pets, store',
+                'Parameters:',
+                '- dryRun (query): Validate without saving',
+                '- legacy (header, deprecated)',
+                '- request body: The pet to add',
+                'Responses: 201 The created pet; 409 The pet exists',
+                'Example request body: {"name":"Rex"}',
+                'Example response: {"id":7,"name":"Rex"}',
+            ].join('\n'));
+        });
+
+        it('should flag deprecated operations and not repeat the summary', () => {
+            const description = buildToolDescription({
+                operationId: 'getPet', method: 'get', path: '/pets/{id}', deprecated: true,
+                summary: 'Get a pet', description: 'Get a pet by its id.',
+            });
+            assert.equal(description, 'Deprecated: this operation may be removed, avoid it when there is an alternative.\n\nGet a pet by its id.');
+        });
+
+        it('should describe operations without any text by their method and path', () => {
+            assert.equal(buildToolDescription({ operationId: 'ping', method: 'get', path: '/ping' }), 'GET /ping');
+            assert.equal(buildToolDescription({ operationId: 'ping', method: 'get', path: '/ping' }, { template: '{tags}' }), 'GET /ping');
+        });
+
+        it('should render custom templates', () => {
+            assert.equal(
+                buildToolDescription(operation, { template: '{method} {path} ({operationId}): {summary}' }),
+                'POST /pets (createPet): Create a pet'
+            );
+        });
+
+        it('should leave out the optional sections, then cut the text over the budget', () => {
+            const withoutExamples = buildToolDescription(operation, { maxLength: 250 });
+            assert.ok(withoutExamples.length <= 250);
+            assert.ok(!withoutExamples.includes('Example'));
+            assert.ok(withoutExamples.includes('Responses: 201'));
+
+            assert.equal(buildToolDescription(operation, { maxLength: 60 }), 'Create a pet\n\nAdds a pet to the store.\n\nTags: pets, store');
+            assert.equal(buildToolDescription(operation, { maxLength: 20 }), 'Create a pet\n\nAdds…');
+            assert.ok(buildToolDescription(operation, { maxLength: 0 }).includes('Example response'));
+        });
+    });
+
+    describe('getUnknownDescriptionPlaceholders', () => {
+        it('should return the placeholders that are not supported', () => {
+            assert.deepEqual(getUnknownDescriptionPlaceholders('{summary}\n{parameters}'), []);
+            assert.deepEqual(getUnknownDescriptionPlaceholders('{summary} {author}'), ['author']);
+        });
+    });
+});
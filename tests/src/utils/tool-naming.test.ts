@@ -0,0 +1,89 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import * as sinon from 'sinon';
+import { getMethodPathName, getToolNames, getUnknownPlaceholders, sanitizeToolName } from '../../../src/utils/tool-naming';
+import logger from '../../../src/utils/logger';
+
+describe('Tool Naming', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    beforeEach(() => {
+        sandbox = sinon.createSandbox();
+        // Silence logger during tests
+        sandbox.stub(logger, 'debug');
+        sandbox.stub(logger, 'info');
+        sandbox.stub(logger, 'warn');
+        sandbox.stub(logger, 'error');
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    const operations = [
+        { operationId: 'getPet', method: 'get', path: '/pets/{petId}', tags: ['pets'] },
+        { operationId: 'pets.create', method: 'post', path: '/pets', tags: ['pets', 'write'] },
+        { method: 'delete', path: '/stores/{storeId}/orders/{orderId}' }
+    ];
+
+    describe('sanitizeToolName', () => {
+        it('should replace the characters tool names may not contain', () => {
+            assert.equal(sanitizeToolName('pets.create'), 'pets_create');
+            assert.equal(sanitizeToolName('List pets (v2)!'), 'List_pets_v2');
+            assert.equal(sanitizeToolName('___'), 'tool');
+        });
+
+        it('should cut long names and keep them unique with a hash', () => {
+            const first = sanitizeToolName(`get_${'a'.repeat(100)}_first`);
+            const second = sanitizeToolName(`get_${'a'.repeat(100)}_second`);
+
+            assert.equal(first.length, 64);
+            assert.match(first, /^get_a+_[0-9a-f]{8}$/);
+            assert.notEqual(first, second);
+            assert.equal(sanitizeToolName(`get_${'a'.repeat(100)}_first`), first);
+        });
+    });
+
+    describe('getMethodPathName', () => {
+        it('should name operations after the method and the path', () => {
+            assert.equal(getMethodPathName('GET', '/pets/{petId}'), 'get_pets_petId');
+            assert.equal(getMethodPathName('post', '/'), 'post');
+        });
+    });
+
+    describe('getToolNames', () => {
+        it('should name tools with the selected strategy', () => {
+            assert.deepEqual(getToolNames(operations), ['getPet', 'pets_create', 'delete_stores_storeId_orders_orderId']);
+            assert.deepEqual(getToolNames(operations, { strategy: 'method_path' }), ['get_pets_petId', 'post_pets', 'delete_stores_storeId_orders_orderId']);
+            assert.deepEqual(getToolNames(operations, { strategy: 'tag_prefixed' }), ['pets_getPet', 'pets_pets_create', 'delete_stores_storeId_orders_orderId']);
+            assert.deepEqual(
+                getToolNames(operations, { strategy: 'template', template: '{tag}-{method}-{operationId}' }),
+                ['pets-get-getPet', 'pets-post-pets_create', 'delete-delete_stores_storeId_orders_orderId']
+            );
+        });
+
+        it('should prefix the names with the namespace', () => {
+            assert.deepEqual(getToolNames(operations.slice(0, 2), { namespace: 'petstore' }), ['petstore_getPet', 'petstore_pets_create']);
+        });
+
+        it('should resolve collisions by path and method, whatever the order of the operations', () => {
+            const colliding = [
+                { operationId: 'list', method: 'get', path: '/users' },
+                { operationId: 'list', method: 'get', path: '/orders' },
+                { operationId: 'list_2', method: 'get', path: '/archive' },
+                { operationId: 'list', method: 'get', path: '/items' }
+            ];
+
+            const names = getToolNames(colliding);
+            assert.deepEqual(names, ['list_4', 'list_3', 'list_2', 'list']);
+            assert.deepEqual(getToolNames([...colliding].reverse()), [...names].reverse());
+        });
+    });
+
+    describe('getUnknownPlaceholders', () => {
+        it('should report the unsupported placeholders of a template', () => {
+            assert.deepEqual(getUnknownPlaceholders('{tag}_{operationId}'), []);
+            assert.deepEqual(getUnknownPlaceholders('{tags}_{summary}'), ['tags', 'summary']);
+        });
+    });
+});
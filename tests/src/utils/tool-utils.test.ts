@@ -2,7 +2,11 @@ import { describe, it, beforeEach, afterEach } from 'node:test';
 import { strict as assert } from 'node:assert';
 import * as sinon from 'sinon';
 import {
+    getRequestBodyMapping,
+    getResponseSchemaMapping,
+    getToolAnnotations,
     parametersArrayToUnifiedSchema,
+    responsesToOutputSchema,
     unifiedArgumentsToParametersArray
 } from '../../../src/utils/tool-utils';
 import { OpenAPIV3 } from 'openapi-client-axios';
@@ -76,6 +80,29 @@ describe('Tool Utilities', () => {
             assert.ok(schema.data);
         });
         
+        it('should apply the defaults of optional parameters', () => {
+            const parameters: OpenAPIV3.ParameterObject[] = [
+                { name: 'limit', in: 'query', schema: { type: 'integer', default: 20 } }
+            ];
+
+            const schema = parametersArrayToUnifiedSchema(parameters);
+
+            assert.equal(schema.limit.parse(undefined), 20);
+            assert.equal(schema.limit.parse(5), 5);
+        });
+
+        it('should not apply body property defaults that would create an optional body', () => {
+            const schema = parametersArrayToUnifiedSchema([], {
+                content: {
+                    'application/json': {
+                        schema: { type: 'object', properties: { tag: { type: 'string', default: 'new' } } }
+                    }
+                }
+            });
+
+            assert.equal(schema.tag.parse(undefined), undefined);
+        });
+
         it('should handle empty parameters array', () => {
             const parameters: OpenAPIV3.ParameterObject[] = [];
             const schema = parametersArrayToUnifiedSchema(parameters);
@@ -161,4 +188,250 @@ describe('Tool Utilities', () => {
             assert.equal(result.body, undefined);
         });
     });
-});
\ No newline at end of file
+
+    describe('requestBody handling', () => {
+        const idParam: OpenAPIV3.ParameterObject = {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'integer' } as OpenAPIV3.SchemaObject
+        };
+        const petBody: OpenAPIV3.RequestBodyObject = {
+            required: true,
+            content: {
+                'application/xml': { schema: { type: 'string' } },
+                'application/json': {
+                    schema: {
+                        type: 'object',
+                        properties: {
+                            name: { type: 'string' },
+                            tag: { type: 'string' }
+                        },
+                        required: ['name']
+                    }
+                }
+            }
+        };
+
+        it('should prefer the JSON content type', () => {
+            const mapping = getRequestBodyMapping(petBody, [idParam]);
+
+            assert.equal(mapping?.contentType, 'application/json');
+            assert.equal(mapping?.argumentName, undefined);
+        });
+
+        it('should fall back to other +json and then the first content type', () => {
+            const vendorJson = getRequestBodyMapping({
+                content: {
+                    'text/plain': { schema: { type: 'string' } },
+                    'application/vnd.api+json': { schema: { type: 'object' } }
+                }
+            });
+            const formOnly = getRequestBodyMapping({
+                content: { 'application/x-www-form-urlencoded': { schema: { type: 'object' } } }
+            });
+
+            assert.equal(vendorJson?.contentType, 'application/vnd.api+json');
+            assert.equal(formOnly?.contentType, 'application/x-www-form-urlencoded');
+        });
+
+        it('should flatten object body properties into the tool schema', () => {
+            const schema = parametersArrayToUnifiedSchema([idParam], petBody);
+
+            assert.deepEqual(Object.keys(schema), ['id', 'name', 'tag']);
+            assert.doesNotThrow(() => schema.name.parse('Rex'));
+            assert.throws(() => schema.name.parse(undefined));
+            assert.doesNotThrow(() => schema.tag.parse(undefined));
+        });
+
+        it('should nest the body under a single argument when property names clash with parameters', () => {
+            const clashingBody: OpenAPIV3.RequestBodyObject = {
+                content: {
+                    'application/json': {
+                        schema: {
+                            type: 'object',
+                            properties: { id: { type: 'integer' }, name: { type: 'string' } }
+                        }
+                    }
+                }
+            };
+
+            const schema = parametersArrayToUnifiedSchema([idParam], clashingBody);
+            const result = unifiedArgumentsToParametersArray(
+                { id: 1, body: { id: 2, name: 'Rex' } },
+                [idParam],
+                clashingBody
+            );
+
+            assert.deepEqual(Object.keys(schema), ['id', 'body']);
+            assert.equal(result.params.length, 1);
+            assert.equal(result.params[0].value, 1);
+            assert.deepEqual(result.body, { id: 2, name: 'Rex' });
+        });
+
+        it('should nest the body when property names clash with reserved arguments', () => {
+            for (const reserved of ['_dryRun', '_fields', '_continuation']) {
+                const mapping = getRequestBodyMapping({
+                    content: {
+                        'application/json': {
+                            schema: { type: 'object', properties: { [reserved]: { type: 'string' }, name: { type: 'string' } } }
+                        }
+                    }
+                }, [idParam]);
+
+                assert.equal(mapping?.argumentName, 'body');
+            }
+        });
+
+        it('should use requestBody as argument name when a parameter is already named body', () => {
+            const bodyParam: OpenAPIV3.ParameterObject = { name: 'body', in: 'query', schema: { type: 'string' } };
+            const mapping = getRequestBodyMapping(
+                { content: { 'application/json': { schema: { type: 'array', items: { type: 'string' } } } } },
+                [bodyParam]
+            );
+
+            assert.equal(mapping?.argumentName, 'requestBody');
+        });
+
+        it('should collect flattened arguments into the request body', () => {
+            const result = unifiedArgumentsToParametersArray({ id: 7, name: 'Rex' }, [idParam], petBody);
+
+            assert.equal(result.params.length, 1);
+            assert.deepEqual(result.body, { name: 'Rex' });
+            assert.equal(result.contentType, 'application/json');
+        });
+
+        it('should not send a body when no body arguments were provided', () => {
+            const result = unifiedArgumentsToParametersArray({ id: 7 }, [idParam], petBody);
+
+            assert.equal(result.body, undefined);
+            assert.equal(result.contentType, undefined);
+        });
+    });
+
+    describe('getToolAnnotations', () => {
+        it('should mark GET and HEAD operations as read-only', () => {
+            for (const method of ['get', 'HEAD']) {
+                assert.deepEqual(getToolAnnotations(method), {
+                    readOnlyHint: true,
+                    destructiveHint: false,
+                    idempotentHint: true,
+                    openWorldHint: true
+                });
+            }
+        });
+
+        it('should mark PUT, PATCH and DELETE as destructive and PUT as idempotent', () => {
+            const deleteAnnotations = getToolAnnotations('delete');
+            assert.equal(deleteAnnotations.destructiveHint, true);
+            assert.equal(deleteAnnotations.readOnlyHint, false);
+
+            const putAnnotations = getToolAnnotations('put');
+            assert.equal(putAnnotations.idempotentHint, true);
+            assert.equal(putAnnotations.destructiveHint, true);
+
+            const patchAnnotations = getToolAnnotations('PATCH');
+            assert.equal(patchAnnotations.idempotentHint, false);
+            assert.equal(patchAnnotations.destructiveHint, true);
+        });
+
+        it('should leave the destructive hint of POST unset unless overridden', () => {
+            const postAnnotations = getToolAnnotations('post');
+            assert.equal(postAnnotations.idempotentHint, false);
+            assert.equal(postAnnotations.readOnlyHint, false);
+            assert.equal('destructiveHint' in postAnnotations, false);
+
+            assert.equal(getToolAnnotations('post', undefined, { 'x-mcp-destructiveHint': false }).destructiveHint, false);
+        });
+
+        it('should use the summary as the title', () => {
+            assert.equal(getToolAnnotations('get', ' List pets ').title, 'List pets');
+            assert.equal(getToolAnnotations('get').title, undefined);
+        });
+
+        it('should apply x-mcp vendor extension overrides', () => {
+            const annotations = getToolAnnotations('post', 'Search pets', {
+                'x-mcp-title': 'Pet search',
+                'x-mcp-readOnlyHint': true,
+                'x-mcp-idempotentHint': true,
+                'x-mcp-openWorldHint': 'no'
+            });
+
+            assert.deepEqual(annotations, {
+                title: 'Pet search',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true,
+                openWorldHint: true
+            });
+        });
+
+        it('should mark operations opted in as safe read-only', () => {
+            const annotations = getToolAnnotations('post', undefined, { 'x-mcp-safe': true });
+            assert.equal(annotations.readOnlyHint, true);
+            assert.equal(annotations.destructiveHint, false);
+        });
+
+        it('should keep an explicit destructive override on read-only operations', () => {
+            const annotations = getToolAnnotations('get', undefined, { 'x-mcp-destructiveHint': true });
+            assert.equal(annotations.readOnlyHint, true);
+            assert.equal(annotations.destructiveHint, true);
+        });
+    });
+
+    describe('getResponseSchemaMapping', () => {
+        const petSchema: OpenAPIV3.SchemaObject = { type: 'object', properties: { name: { type: 'string' } } };
+
+        it('should prefer the 200 JSON response', () => {
+            const mapping = getResponseSchemaMapping({
+                '201': { description: 'created', content: { 'application/json': { schema: { type: 'string' } } } },
+                '200': { description: 'ok', content: { 'text/plain': { schema: { type: 'string' } }, 'application/hal+json': { schema: petSchema } } },
+                default: { description: 'error', content: { 'application/json': { schema: { type: 'object' } } } }
+            });
+
+            assert.deepEqual(mapping, { statusCode: '200', contentType: 'application/hal+json', schema: petSchema, optional: false });
+        });
+
+        it('should mark the data optional when another success response has no body', () => {
+            const mapping = getResponseSchemaMapping({
+                '200': { description: 'ok', content: { 'application/json': { schema: petSchema } } },
+                '204': { description: 'no content' }
+            });
+
+            assert.equal(mapping?.optional, true);
+        });
+
+        it('should ignore non-JSON and error responses', () => {
+            assert.equal(getResponseSchemaMapping({
+                '200': { description: 'ok', content: { 'text/csv': { schema: { type: 'string' } } } },
+                '404': { description: 'missing', content: { 'application/json': { schema: petSchema } } }
+            }), undefined);
+            assert.equal(getResponseSchemaMapping(undefined), undefined);
+        });
+    });
+
+    describe('responsesToOutputSchema', () => {
+        it('should nest the response body under data', () => {
+            const outputSchema = responsesToOutputSchema({
+                '200': { description: 'ok', content: { 'application/json': { schema: { type: 'array', items: { type: 'integer' } } } } }
+            });
+
+            assert.ok(outputSchema);
+            assert.doesNotThrow(() => outputSchema.data.parse([1, 2]));
+            assert.throws(() => outputSchema.data.parse(undefined));
+        });
+
+        it('should keep undocumented response properties', () => {
+            const outputSchema = responsesToOutputSchema({
+                '200': { description: 'ok', content: { 'application/json': { schema: { type: 'object', properties: { name: { type: 'string' } } } } } }
+            });
+
+            assert.ok(outputSchema);
+            assert.deepEqual(outputSchema.data.parse({ name: 'Rex', age: 3 }), { name: 'Rex', age: 3 });
+        });
+
+        it('should return undefined without a documented JSON response', () => {
+            assert.equal(responsesToOutputSchema({ '204': { description: 'no content' } }), undefined);
+        });
+    });
+});